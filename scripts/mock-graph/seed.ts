@@ -0,0 +1,62 @@
+// scripts/mock-graph/seed.ts - connect the fixture's pages to a local user: npm run mock:graph:seed -- you@example.com
+import { PrismaClient, Platform } from '@prisma/client'
+import { TokenEncryption } from '../../src/lib/meta'
+import { loadFixture, DEFAULT_FIXTURE_PATH } from './server'
+
+const prisma = new PrismaClient()
+
+async function seed(email: string, fixturePath: string): Promise<void> {
+  const fixture = loadFixture(fixturePath)
+
+  const user = await prisma.user.upsert({
+    where: { email },
+    update: {},
+    create: { email, name: fixture.user.name }
+  })
+
+  for (const page of fixture.pages) {
+    const platforms = page.instagram ? [Platform.FACEBOOK, Platform.INSTAGRAM] : [Platform.FACEBOOK]
+
+    // Instagram pages are stored under the Facebook page they are connected to
+    for (const platform of platforms) {
+      await prisma.page.upsert({
+        where: {
+          externalId_platform: {
+            externalId: page.id,
+            platform
+          }
+        },
+        update: {
+          ownerUserId: user.id,
+          pageAccessToken: TokenEncryption.encrypt(page.access_token),
+          isActive: true
+        },
+        create: {
+          platform,
+          externalId: page.id,
+          name: platform === Platform.INSTAGRAM ? `@${page.instagram!.username}` : page.name,
+          pictureUrl: page.picture,
+          ownerUserId: user.id,
+          pageAccessToken: TokenEncryption.encrypt(page.access_token)
+        }
+      })
+    }
+
+    console.log(`Connected ${page.name}${page.instagram ? ` and @${page.instagram.username}` : ''}`)
+  }
+
+  console.log(`Seeded ${fixture.pages.length} mock pages for ${email}`)
+}
+
+const email = process.argv[2] || process.env.MOCK_USER_EMAIL
+if (!email) {
+  console.error('Usage: npm run mock:graph:seed -- <email> [fixture.json]')
+  process.exit(1)
+}
+
+seed(email, process.argv[3] || DEFAULT_FIXTURE_PATH)
+  .catch(error => {
+    console.error('Error seeding mock pages:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
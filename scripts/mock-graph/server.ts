@@ -0,0 +1,417 @@
+// scripts/mock-graph/server.ts - in-memory stand-in for the Graph API endpoints MetaGraphAPI uses
+import http from 'http'
+import fs from 'fs'
+import path from 'path'
+import { AddressInfo } from 'net'
+
+export const DEFAULT_FIXTURE_PATH = path.join(__dirname, 'fixtures', 'default.json')
+
+// Times in fixture files are ISO strings or offsets from server start, e.g. "-90m", "-2h", "-3d"
+export interface MockGraphFixture {
+  user: {
+    id: string
+    name: string
+    access_token: string
+  }
+  invalidTokens?: string[]
+  pages: Array<{
+    id: string
+    name: string
+    access_token: string
+    picture?: string
+    posts: Array<{
+      id: string
+      message?: string
+      created_time: string
+      likes?: number
+      comments: Array<{
+        id: string
+        from?: { id: string, name: string }
+        message: string
+        created_time: string
+        like_count?: number
+        parent?: { id: string }
+      }>
+    }>
+    instagram?: {
+      id: string
+      username: string
+      media: Array<{
+        id: string
+        caption?: string
+        timestamp: string
+        like_count?: number
+        comments: Array<MockInstagramComment & {
+          replies?: MockInstagramComment[]
+        }>
+      }>
+    }
+  }>
+}
+
+interface MockInstagramComment {
+  id: string
+  text: string
+  username: string
+  timestamp: string
+  like_count?: number
+}
+
+export interface MockGraphOptions {
+  fixture?: MockGraphFixture
+  // Answer every Nth request with a 429 rate-limit error; 0 disables
+  rateLimitEvery?: number
+}
+
+class GraphError extends Error {
+  constructor(
+    public status: number,
+    public code: number,
+    message: string,
+    public type: string = 'OAuthException'
+  ) {
+    super(message)
+  }
+}
+
+const RELATIVE_TIME = /^-(\d+)([smhd])$/
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 }
+
+function resolveTime(value: string, now: number): string {
+  const match = RELATIVE_TIME.exec(value)
+  const time = match ? new Date(now - parseInt(match[1], 10) * UNIT_MS[match[2]]) : new Date(value)
+  return formatGraphTime(time)
+}
+
+// Graph timestamps look like 2024-01-05T12:00:00+0000
+function formatGraphTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, '+0000')
+}
+
+// since/until accept unix seconds or anything Date can parse
+function parseGraphTime(value: string | null): number | null {
+  if (!value) return null
+  return /^\d+$/.test(value) ? parseInt(value, 10) * 1000 : Date.parse(value)
+}
+
+export function loadFixture(file: string = DEFAULT_FIXTURE_PATH): MockGraphFixture {
+  const fixture: MockGraphFixture = JSON.parse(fs.readFileSync(file, 'utf8'))
+  const now = Date.now()
+
+  for (const page of fixture.pages) {
+    for (const post of page.posts) {
+      post.created_time = resolveTime(post.created_time, now)
+      for (const comment of post.comments) {
+        comment.created_time = resolveTime(comment.created_time, now)
+      }
+    }
+
+    for (const media of page.instagram?.media || []) {
+      media.timestamp = resolveTime(media.timestamp, now)
+      for (const comment of media.comments) {
+        comment.timestamp = resolveTime(comment.timestamp, now)
+        for (const reply of comment.replies || []) {
+          reply.timestamp = resolveTime(reply.timestamp, now)
+        }
+      }
+    }
+  }
+
+  return fixture
+}
+
+// Offset-based cursors; opaque to clients like the real ones
+function encodeCursor(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString('base64')
+}
+
+function decodeCursor(cursor: string | null): number {
+  if (!cursor) return 0
+  const offset = parseInt(Buffer.from(cursor, 'base64').toString().replace('offset:', ''), 10)
+  if (isNaN(offset)) {
+    throw new GraphError(400, 100, 'Invalid cursor', 'GraphMethodException')
+  }
+  return offset
+}
+
+function paginate<T>(items: T[], url: URL) {
+  const limit = Math.min(100, parseInt(url.searchParams.get('limit') || '25', 10) || 25)
+  const offset = decodeCursor(url.searchParams.get('after'))
+  const data = items.slice(offset, offset + limit)
+
+  const paging: Record<string, unknown> = {
+    cursors: {
+      before: encodeCursor(offset),
+      after: encodeCursor(offset + data.length)
+    }
+  }
+
+  if (offset + data.length < items.length) {
+    const next = new URL(url.toString())
+    next.searchParams.set('after', encodeCursor(offset + data.length))
+    paging.next = next.toString()
+  }
+
+  return { data, paging }
+}
+
+function newestFirst<T>(items: T[], timeOf: (item: T) => string): T[] {
+  return [...items].sort((a, b) => Date.parse(timeOf(b)) - Date.parse(timeOf(a)))
+}
+
+function withinRange(time: string, url: URL): boolean {
+  const since = parseGraphTime(url.searchParams.get('since'))
+  const until = parseGraphTime(url.searchParams.get('until'))
+  const value = Date.parse(time)
+  return (since === null || value >= since) && (until === null || value <= until)
+}
+
+function instagramComment(comment: MockInstagramComment) {
+  return {
+    id: comment.id,
+    text: comment.text,
+    username: comment.username,
+    timestamp: comment.timestamp,
+    like_count: comment.like_count || 0
+  }
+}
+
+type MockPost = MockGraphFixture['pages'][number]['posts'][number]
+type MockMedia = NonNullable<MockGraphFixture['pages'][number]['instagram']>['media'][number]
+
+function facebookPost(post: MockPost) {
+  return {
+    id: post.id,
+    message: post.message,
+    created_time: post.created_time,
+    permalink_url: `https://www.facebook.com/${post.id}`,
+    likes: { summary: { total_count: post.likes || 0 } },
+    comments: { summary: { total_count: post.comments.length } }
+  }
+}
+
+function instagramMedia(media: MockMedia) {
+  return {
+    id: media.id,
+    caption: media.caption,
+    timestamp: media.timestamp,
+    permalink: `https://www.instagram.com/p/${media.id}/`,
+    like_count: media.like_count || 0,
+    comments_count: media.comments.reduce((count, comment) => count + 1 + (comment.replies?.length || 0), 0)
+  }
+}
+
+// Posts and media by id, for multi-id lookups
+function findObject(fixture: MockGraphFixture, id: string): unknown {
+  for (const page of fixture.pages) {
+    const post = page.posts.find(post => post.id === id)
+    if (post) return facebookPost(post)
+
+    const media = page.instagram?.media.find(media => media.id === id)
+    if (media) return instagramMedia(media)
+  }
+
+  throw new GraphError(404, 803, `(#803) Some of the aliases you requested do not exist: ${id}`)
+}
+
+function handle(fixture: MockGraphFixture, url: URL): unknown {
+  const token = url.searchParams.get('access_token')
+  if (!token) {
+    throw new GraphError(400, 104, 'An access token is required to request this resource.')
+  }
+
+  const tokenPage = fixture.pages.find(page => page.access_token === token)
+  if (fixture.invalidTokens?.includes(token) || (!tokenPage && token !== fixture.user.access_token)) {
+    throw new GraphError(400, 190, 'Error validating access token: Session has expired.')
+  }
+
+  // Accept both /v18.0/... and unversioned paths
+  const segments = url.pathname.split('/').filter(Boolean)
+  if (/^v\d+\.\d+$/.test(segments[0] || '')) segments.shift()
+
+  const [objectId, edge] = segments
+
+  // GET /?ids=a,b returns each object keyed by its id
+  if (!objectId && url.searchParams.has('ids')) {
+    return Object.fromEntries(url.searchParams.get('ids')!.split(',').map(id => [id, findObject(fixture, id)]))
+  }
+
+  if (objectId === 'me' && !edge) {
+    return tokenPage
+      ? { id: tokenPage.id, name: tokenPage.name }
+      : { id: fixture.user.id, name: fixture.user.name }
+  }
+
+  if (objectId === 'me' && edge === 'accounts') {
+    return paginate(fixture.pages.map(page => ({
+      id: page.id,
+      name: page.name,
+      access_token: page.access_token,
+      ...(page.picture && { picture: { data: { url: page.picture } } })
+    })), url)
+  }
+
+  if (objectId === 'debug_token') {
+    const inputToken = url.searchParams.get('input_token') || token
+    const inputPage = fixture.pages.find(page => page.access_token === inputToken)
+    const isValid = !fixture.invalidTokens?.includes(inputToken) &&
+      (!!inputPage || inputToken === fixture.user.access_token)
+    const expiresAt = Math.floor(Date.now() / 1000) + 60 * 86400
+
+    return {
+      data: {
+        app_id: 'mock-app',
+        type: inputPage ? 'PAGE' : 'USER',
+        application: 'Mock Graph API',
+        data_access_expires_at: expiresAt,
+        expires_at: expiresAt,
+        is_valid: isValid,
+        scopes: ['pages_show_list', 'pages_read_engagement', 'instagram_basic', 'instagram_manage_comments'],
+        user_id: fixture.user.id
+      }
+    }
+  }
+
+  if (objectId === 'oauth' && edge === 'access_token') {
+    return {
+      access_token: url.searchParams.get('fb_exchange_token') || token,
+      token_type: 'bearer',
+      expires_in: 60 * 86400
+    }
+  }
+
+  for (const page of fixture.pages) {
+    if (objectId === page.id) {
+      if (!edge) {
+        return {
+          id: page.id,
+          name: page.name,
+          ...(page.instagram && {
+            connected_instagram_account: { id: page.instagram.id, username: page.instagram.username }
+          })
+        }
+      }
+
+      if (edge === 'posts') {
+        const posts = newestFirst(page.posts, post => post.created_time)
+          .filter(post => withinRange(post.created_time, url))
+          .map(facebookPost)
+        return paginate(posts, url)
+      }
+    }
+
+    for (const post of page.posts) {
+      if (objectId === post.id && edge === 'comments') {
+        // filter=stream includes replies; the default (toplevel) doesn't
+        const comments = url.searchParams.get('filter') === 'stream'
+          ? post.comments
+          : post.comments.filter(comment => !comment.parent)
+        const ordered = newestFirst(comments, comment => comment.created_time)
+        if (url.searchParams.get('order') !== 'reverse_chronological') ordered.reverse()
+
+        return paginate(ordered.map(comment => ({
+          id: comment.id,
+          from: comment.from,
+          message: comment.message,
+          created_time: comment.created_time,
+          like_count: comment.like_count || 0,
+          comment_count: post.comments.filter(reply => reply.parent?.id === comment.id).length,
+          ...(comment.parent && { parent: comment.parent })
+        })), url)
+      }
+    }
+
+    const instagram = page.instagram
+    if (!instagram) continue
+
+    if (objectId === instagram.id && edge === 'media') {
+      const media = newestFirst(instagram.media, item => item.timestamp)
+        .filter(item => withinRange(item.timestamp, url))
+        .map(instagramMedia)
+      return paginate(media, url)
+    }
+
+    for (const media of instagram.media) {
+      if (objectId === media.id && edge === 'comments') {
+        return paginate(newestFirst(media.comments, comment => comment.timestamp).map(instagramComment), url)
+      }
+
+      for (const comment of media.comments) {
+        if (objectId === comment.id && edge === 'replies') {
+          // Replies come back oldest first
+          return paginate(newestFirst(comment.replies || [], reply => reply.timestamp).reverse().map(instagramComment), url)
+        }
+      }
+    }
+  }
+
+  throw new GraphError(
+    400,
+    100,
+    `Unsupported get request. Object with ID '${objectId}' does not exist or does not support this operation`,
+    'GraphMethodException'
+  )
+}
+
+export function createMockGraphServer(options: MockGraphOptions = {}): http.Server {
+  const fixture = options.fixture || loadFixture()
+  const rateLimitEvery = options.rateLimitEvery || 0
+  let requestCount = 0
+
+  return http.createServer((request, response) => {
+    requestCount++
+    const url = new URL(request.url || '/', `http://${request.headers.host || 'localhost'}`)
+
+    let status = 200
+    let body: unknown
+
+    try {
+      if (request.method !== 'GET') {
+        throw new GraphError(400, 100, `Unsupported ${request.method} request`, 'GraphMethodException')
+      }
+
+      if (rateLimitEvery > 0 && requestCount % rateLimitEvery === 0) {
+        throw new GraphError(429, 4, '(#4) Application request limit reached')
+      }
+
+      body = handle(fixture, url)
+    } catch (error) {
+      const graphError = error instanceof GraphError
+        ? error
+        : new GraphError(500, 1, error instanceof Error ? error.message : 'An unknown error occurred')
+      status = graphError.status
+      body = {
+        error: {
+          message: graphError.message,
+          type: graphError.type,
+          code: graphError.code,
+          fbtrace_id: `mock${requestCount}`
+        }
+      }
+    }
+
+    console.log(`${request.method} ${url.pathname}${url.search.replace(/access_token=[^&]*/, 'access_token=***')} -> ${status}`)
+
+    response.writeHead(status, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(body))
+  })
+}
+
+// Start on `port` (0 picks a free one) and resolve with the versioned base URL
+export function startMockGraphServer(
+  port: number,
+  options: MockGraphOptions = {}
+): Promise<{ url: string, close: () => Promise<void> }> {
+  const server = createMockGraphServer(options)
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, () => {
+      const { port: boundPort } = server.address() as AddressInfo
+      resolve({
+        url: `http://localhost:${boundPort}/v18.0`,
+        close: () => new Promise(done => server.close(() => done()))
+      })
+    })
+  })
+}
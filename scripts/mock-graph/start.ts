@@ -0,0 +1,18 @@
+// scripts/mock-graph/start.ts - run the mock Graph API: npm run mock:graph [-- path/to/fixture.json]
+import { loadFixture, startMockGraphServer, DEFAULT_FIXTURE_PATH } from './server'
+
+const port = parseInt(process.env.MOCK_GRAPH_PORT || '4010', 10)
+const fixturePath = process.argv[2] || DEFAULT_FIXTURE_PATH
+
+startMockGraphServer(port, {
+  fixture: loadFixture(fixturePath),
+  rateLimitEvery: parseInt(process.env.MOCK_GRAPH_RATE_LIMIT_EVERY || '0', 10)
+})
+  .then(({ url }) => {
+    console.log(`Mock Graph API serving ${fixturePath}`)
+    console.log(`Listening on ${url} - set META_GRAPH_API_URL=${url}`)
+  })
+  .catch(error => {
+    console.error('Failed to start mock Graph API:', error)
+    process.exit(1)
+  })
@@ -0,0 +1,153 @@
+// scripts/mock-llm/server.ts - stand-in for an OpenAI-compatible chat completions server
+import http from 'http'
+import { AddressInfo } from 'net'
+
+// How replies are formatted, to exercise lenient parsing:
+// json is a bare object, fenced wraps it in ```json, prose adds sentences around it,
+// malformed uses single quotes, unquoted keys and trailing commas, rotate cycles through all four.
+// invalid answers with a label outside the schema until asked to repair it, to exercise the repair retry
+export type MockReplyStyle = 'json' | 'fenced' | 'prose' | 'malformed' | 'invalid' | 'rotate'
+
+export interface MockLlmOptions {
+  style?: MockReplyStyle
+  // Answer every Nth request with a 500; 0 disables
+  failEvery?: number
+}
+
+const REPLY_STYLES: Exclude<MockReplyStyle, 'rotate' | 'invalid'>[] = ['json', 'fenced', 'prose', 'malformed']
+
+const POSITIVE_WORDS = ['love', 'great', 'amazing', 'awesome', 'excellent', 'good', 'best', 'thanks', 'happy', 'perfect']
+const NEGATIVE_WORDS = ['hate', 'terrible', 'awful', 'worst', 'bad', 'slow', 'broken', 'scam', 'disappointed', 'angry']
+const TOXIC_WORDS = ['idiot', 'stupid', 'scam', 'trash']
+
+interface ChatRequest {
+  model?: string
+  messages?: Array<{ role: string, content: string }>
+  response_format?: { type: string }
+}
+
+// Word-list scoring, deterministic so runs are repeatable
+function classify(text: string) {
+  const words = text.toLowerCase().match(/[a-z']+/g) || []
+  const positive = words.filter(word => POSITIVE_WORDS.includes(word)).length
+  const negative = words.filter(word => NEGATIVE_WORDS.includes(word)).length
+  const toxic = words.filter(word => TOXIC_WORDS.includes(word)).length
+
+  const sentiment = positive > negative ? 'POSITIVE' : negative > positive ? 'NEGATIVE' : 'NEUTRAL'
+
+  return {
+    sentiment,
+    confidence: sentiment === 'NEUTRAL' ? 0.6 : Math.min(0.95, (7 + Math.abs(positive - negative)) / 10),
+    toxicity: Math.min(1, (1 + 8 * toxic) / 20),
+    language: 'en',
+    keywords: Array.from(new Set(words.filter(word => word.length > 3))).slice(0, 5),
+    claims: [],
+    factualAccuracy: 'Unverified'
+  }
+}
+
+function formatReply(result: ReturnType<typeof classify>, style: Exclude<MockReplyStyle, 'rotate'>): string {
+  const json = JSON.stringify(result, null, 2)
+
+  switch (style) {
+    case 'invalid':
+      return JSON.stringify({ ...result, sentiment: 'somewhat happy', confidence: 'high' })
+    case 'fenced':
+      return `\`\`\`json\n${json}\n\`\`\``
+    case 'prose':
+      return `Here is the analysis you asked for:\n${json}\nLet me know if you need anything else.`
+    case 'malformed':
+      return `{sentiment: '${result.sentiment}', confidence: ${result.confidence}, toxicity: ${result.toxicity}, ` +
+        `language: '${result.language}', keywords: [${result.keywords.map(keyword => `'${keyword}'`).join(', ')},], ` +
+        `claims: [], factualAccuracy: '${result.factualAccuracy}',}`
+    default:
+      return json
+  }
+}
+
+export function createMockLlmServer(options: MockLlmOptions = {}): http.Server {
+  const style = options.style || 'json'
+  const failEvery = options.failEvery || 0
+  let requestCount = 0
+
+  return http.createServer((request, response) => {
+    requestCount++
+    const url = new URL(request.url || '/', `http://${request.headers.host || 'localhost'}`)
+
+    const send = (status: number, body: unknown) => {
+      console.log(`${request.method} ${url.pathname} -> ${status}`)
+      response.writeHead(status, { 'Content-Type': 'application/json' })
+      response.end(JSON.stringify(body))
+    }
+
+    if (request.method === 'GET' && url.pathname === '/v1/models') {
+      send(200, { object: 'list', data: [{ id: 'mock-llm', object: 'model', owned_by: 'mock' }] })
+      return
+    }
+
+    if (request.method !== 'POST' || url.pathname !== '/v1/chat/completions') {
+      send(404, { error: { message: `Unknown endpoint ${request.method} ${url.pathname}`, type: 'invalid_request_error' } })
+      return
+    }
+
+    let raw = ''
+    request.on('data', chunk => { raw += chunk })
+    request.on('end', () => {
+      if (failEvery > 0 && requestCount % failEvery === 0) {
+        send(500, { error: { message: 'Mock server error', type: 'server_error' } })
+        return
+      }
+
+      let body: ChatRequest
+      try {
+        body = JSON.parse(raw)
+      } catch {
+        send(400, { error: { message: 'Request body is not JSON', type: 'invalid_request_error' } })
+        return
+      }
+
+      // The comment is the first user message; contextual prompts end with "Comment: ..."
+      // Later user messages are repair requests following an earlier reply.
+      const messages = body.messages || []
+      const userMessage = messages.find(message => message.role === 'user')?.content || ''
+      const comment = userMessage.split('\nComment: ').pop() || ''
+      const isRepair = messages.some(message => message.role === 'assistant')
+
+      const replyStyle = style === 'rotate'
+        ? REPLY_STYLES[(requestCount - 1) % REPLY_STYLES.length]
+        : style === 'invalid' && isRepair ? 'json' : style
+
+      send(200, {
+        id: `chatcmpl-mock${requestCount}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: body.model || 'mock-llm',
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: formatReply(classify(comment), replyStyle) },
+          finish_reason: 'stop'
+        }],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+      })
+    })
+  })
+}
+
+// Start on `port` (0 picks a free one) and resolve with the base URL to use as LLM_BASE_URL
+export function startMockLlmServer(
+  port: number,
+  options: MockLlmOptions = {}
+): Promise<{ url: string, close: () => Promise<void> }> {
+  const server = createMockLlmServer(options)
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, () => {
+      const { port: boundPort } = server.address() as AddressInfo
+      resolve({
+        url: `http://localhost:${boundPort}/v1`,
+        close: () => new Promise(done => server.close(() => done()))
+      })
+    })
+  })
+}
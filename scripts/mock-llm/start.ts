@@ -0,0 +1,18 @@
+// scripts/mock-llm/start.ts - run the mock chat completions server: npm run mock:llm [-- json|fenced|prose|malformed|invalid|rotate]
+import { MockReplyStyle, startMockLlmServer } from './server'
+
+const port = parseInt(process.env.MOCK_LLM_PORT || '4020', 10)
+const style = (process.argv[2] || process.env.MOCK_LLM_STYLE || 'json') as MockReplyStyle
+
+startMockLlmServer(port, {
+  style,
+  failEvery: parseInt(process.env.MOCK_LLM_FAIL_EVERY || '0', 10)
+})
+  .then(({ url }) => {
+    console.log(`Mock LLM replying in "${style}" style`)
+    console.log(`Listening on ${url} - set LLM_BASE_URL=${url} and LLM_MODEL=mock-llm`)
+  })
+  .catch(error => {
+    console.error('Failed to start mock LLM:', error)
+    process.exit(1)
+  })
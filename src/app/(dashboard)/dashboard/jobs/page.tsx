@@ -0,0 +1,532 @@
+// src/app/(dashboard)/dashboard/jobs/page.tsx
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  Activity,
+  ChevronDown,
+  ChevronRight,
+  Pause,
+  Play,
+  RefreshCw,
+  RotateCcw,
+  XCircle
+} from 'lucide-react'
+
+type JobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'DEAD_LETTER' | 'CANCELLED'
+
+interface Job {
+  id: string
+  type: string
+  status: JobStatus
+  payload: Record<string, unknown>
+  pageId: string | null
+  pageName: string | null
+  result: Record<string, unknown> | null
+  attempts: number
+  maxAttempts: number
+  lastError: string | null
+  lastErrorStack?: string | null
+  failedAt: string | null
+  scheduledAt: string
+  startedAt: string | null
+  completedAt: string | null
+  lockedBy: string | null
+  createdAt: string
+}
+
+interface QueueStatus {
+  queueStats: {
+    queued: number
+    running: number
+    completed: number
+    failed: number
+    deadLetter: number
+    cancelled: number
+  }
+  isProcessing: boolean
+}
+
+const JOB_TYPES = [
+  'FETCH_POSTS',
+  'FETCH_COMMENTS',
+  'ANALYZE_SENTIMENT',
+  'ANALYZE_SENTIMENT_BATCH',
+  'ANALYZE_POST_SENTIMENT',
+  'CLEANUP_DATA',
+  'REFRESH_TOKENS',
+  'REBUILD_ROLLUPS',
+  'REANALYZE_COMMENTS'
+]
+
+const JOB_STATUSES: JobStatus[] = ['QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'DEAD_LETTER', 'CANCELLED']
+
+const PAGE_SIZE = 25
+const REFRESH_INTERVAL_MS = 5000
+
+export default function JobsPage() {
+  const [jobs, setJobs] = useState<Job[]>([])
+  const [total, setTotal] = useState(0)
+  const [status, setStatus] = useState<QueueStatus | null>(null)
+  const [pages, setPages] = useState<Array<{ id: string, name: string }>>([])
+  const [filters, setFilters] = useState({ status: 'all', type: 'all', pageId: 'all' })
+  const [page, setPage] = useState(1)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [expanded, setExpanded] = useState<Job | null>(null)
+  const [liveRefresh, setLiveRefresh] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState(false)
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE),
+        ...(filters.status !== 'all' && { status: filters.status }),
+        ...(filters.type !== 'all' && { type: filters.type }),
+        ...(filters.pageId !== 'all' && { pageId: filters.pageId })
+      })
+
+      const [jobsResponse, statusResponse] = await Promise.all([
+        fetch(`/api/jobs?${params}`),
+        fetch('/api/jobs/status')
+      ])
+
+      if (jobsResponse.ok) {
+        const data = await jobsResponse.json()
+        setJobs(data.jobs || [])
+        setTotal(data.pagination?.total || 0)
+      }
+      if (statusResponse.ok) {
+        setStatus(await statusResponse.json())
+      }
+    } catch (error) {
+      console.error('Error fetching jobs:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [page, filters])
+
+  useEffect(() => {
+    fetchPages()
+  }, [])
+
+  useEffect(() => {
+    fetchJobs()
+    if (!liveRefresh) return
+
+    const interval = setInterval(fetchJobs, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchJobs, liveRefresh])
+
+  const fetchPages = async () => {
+    try {
+      const response = await fetch('/api/pages')
+      if (response.ok) {
+        const data = await response.json()
+        setPages(data.pages || [])
+      }
+    } catch (error) {
+      console.error('Error fetching pages:', error)
+    }
+  }
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+    setPage(1)
+    setSelected(new Set())
+  }
+
+  const toggleSelected = (jobId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(jobId)) {
+        next.delete(jobId)
+      } else {
+        next.add(jobId)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelected(prev => prev.size === jobs.length ? new Set() : new Set(jobs.map(job => job.id)))
+  }
+
+  const toggleExpanded = async (job: Job) => {
+    if (expanded?.id === job.id) {
+      setExpanded(null)
+      return
+    }
+
+    setExpanded(job)
+    try {
+      // The list omits stack traces, so load the full job
+      const response = await fetch(`/api/jobs/${job.id}`)
+      if (response.ok) {
+        const data = await response.json()
+        setExpanded(current => current?.id === job.id ? { ...job, ...data.job } : current)
+      }
+    } catch (error) {
+      console.error('Error fetching job details:', error)
+    }
+  }
+
+  const runBulkAction = async (action: 'retry' | 'cancel' | 'requeue') => {
+    if (selected.size === 0) return
+
+    setUpdating(true)
+    try {
+      const response = await fetch('/api/jobs/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action, jobIds: Array.from(selected) })
+      })
+      if (response.ok) {
+        const data = await response.json()
+        if (data.skipped?.length > 0) {
+          alert(`${data.skipped.length} job(s) could not be updated because of their current status`)
+        }
+        setSelected(new Set())
+        await fetchJobs()
+      }
+    } catch (error) {
+      console.error(`Error running bulk ${action}:`, error)
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const getStatusColor = (jobStatus: JobStatus) => {
+    switch (jobStatus) {
+      case 'QUEUED':
+        return 'bg-blue-100 text-blue-800'
+      case 'RUNNING':
+        return 'bg-yellow-100 text-yellow-800'
+      case 'COMPLETED':
+        return 'bg-green-100 text-green-800'
+      case 'FAILED':
+        return 'bg-orange-100 text-orange-800'
+      case 'DEAD_LETTER':
+        return 'bg-red-100 text-red-800'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  const formatTime = (value: string | null) => {
+    return value ? new Date(value).toLocaleString() : '—'
+  }
+
+  const formatDuration = (job: Job) => {
+    if (!job.startedAt) return '—'
+    const end = job.completedAt ? new Date(job.completedAt) : new Date()
+    const seconds = Math.max(0, (end.getTime() - new Date(job.startedAt).getTime()) / 1000)
+    return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Jobs</h1>
+          <p className="text-muted-foreground">
+            Monitor background fetch and analysis jobs
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className={status?.isProcessing ? 'text-green-700' : 'text-muted-foreground'}>
+            <Activity className={`mr-1 h-3 w-3 ${status?.isProcessing ? 'animate-pulse' : ''}`} />
+            {status?.isProcessing ? 'Worker active' : 'Worker idle'}
+          </Badge>
+          <Button variant="outline" onClick={() => setLiveRefresh(prev => !prev)}>
+            {liveRefresh ? (
+              <>
+                <Pause className="mr-2 h-4 w-4" />
+                Pause
+              </>
+            ) : (
+              <>
+                <Play className="mr-2 h-4 w-4" />
+                Live
+              </>
+            )}
+          </Button>
+          <Button variant="outline" onClick={fetchJobs}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Status Counts */}
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+        {([
+          ['Queued', status?.queueStats.queued, 'QUEUED'],
+          ['Running', status?.queueStats.running, 'RUNNING'],
+          ['Completed', status?.queueStats.completed, 'COMPLETED'],
+          ['Retrying', status?.queueStats.failed, 'FAILED'],
+          ['Dead Letter', status?.queueStats.deadLetter, 'DEAD_LETTER'],
+          ['Cancelled', status?.queueStats.cancelled, 'CANCELLED']
+        ] as const).map(([label, count, jobStatus]) => (
+          <Card
+            key={jobStatus}
+            className={`cursor-pointer ${filters.status === jobStatus ? 'border-primary' : ''}`}
+            onClick={() => updateFilter('status', filters.status === jobStatus ? 'all' : jobStatus)}
+          >
+            <CardHeader className="pb-2">
+              <CardDescription>{label}</CardDescription>
+              <CardTitle className="text-2xl">{count ?? '—'}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Job History</CardTitle>
+          <CardDescription>
+            {total} job(s) {liveRefresh && `• refreshing every ${REFRESH_INTERVAL_MS / 1000}s`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Filters */}
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {JOB_STATUSES.map((jobStatus) => (
+                    <SelectItem key={jobStatus} value={jobStatus}>
+                      {jobStatus}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Job Type</Label>
+              <Select value={filters.type} onValueChange={(value) => updateFilter('type', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  {JOB_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Page</Label>
+              <Select value={filters.pageId} onValueChange={(value) => updateFilter('pageId', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All pages</SelectItem>
+                  {pages.map((page) => (
+                    <SelectItem key={page.id} value={page.id}>
+                      {page.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Bulk Actions */}
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground mr-2">
+              {selected.size} selected
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={selected.size === 0 || updating}
+              onClick={() => runBulkAction('retry')}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Retry
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={selected.size === 0 || updating}
+              onClick={() => runBulkAction('requeue')}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Requeue
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={selected.size === 0 || updating}
+              onClick={() => runBulkAction('cancel')}
+              className="text-red-600 hover:text-red-700"
+            >
+              <XCircle className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
+          </div>
+
+          {/* Job Table */}
+          {loading ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-200 rounded animate-pulse" />
+              ))}
+            </div>
+          ) : jobs.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8">
+                    <Checkbox
+                      checked={selected.size > 0 && selected.size === jobs.length}
+                      onCheckedChange={toggleAll}
+                    />
+                  </TableHead>
+                  <TableHead className="w-8" />
+                  <TableHead>Type</TableHead>
+                  <TableHead>Page</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Last Error</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <Fragment key={job.id}>
+                    <TableRow>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(job.id)}
+                          onCheckedChange={() => toggleSelected(job.id)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => toggleExpanded(job)}>
+                          {expanded?.id === job.id ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="font-medium">{job.type}</TableCell>
+                      <TableCell>{job.pageName || '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={getStatusColor(job.status)}>
+                          {job.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{job.attempts}/{job.maxAttempts}</TableCell>
+                      <TableCell className="max-w-xs truncate text-red-600" title={job.lastError || undefined}>
+                        {job.lastError || ''}
+                      </TableCell>
+                      <TableCell>{formatTime(job.createdAt)}</TableCell>
+                      <TableCell>{formatDuration(job)}</TableCell>
+                    </TableRow>
+                    {expanded?.id === job.id && (
+                      <TableRow>
+                        <TableCell colSpan={9} className="bg-muted/50">
+                          <div className="grid gap-4 md:grid-cols-2 text-sm">
+                            <div className="space-y-1">
+                              <p><span className="font-medium">Job ID:</span> {expanded.id}</p>
+                              <p><span className="font-medium">Scheduled:</span> {formatTime(expanded.scheduledAt)}</p>
+                              <p><span className="font-medium">Started:</span> {formatTime(expanded.startedAt)}</p>
+                              <p><span className="font-medium">Completed:</span> {formatTime(expanded.completedAt)}</p>
+                              <p><span className="font-medium">Last failure:</span> {formatTime(expanded.failedAt)}</p>
+                              {expanded.lockedBy && (
+                                <p><span className="font-medium">Worker:</span> {expanded.lockedBy}</p>
+                              )}
+                            </div>
+                            <div className="space-y-2">
+                              <p className="font-medium">Payload</p>
+                              <pre className="whitespace-pre-wrap break-all rounded bg-background p-2 text-xs">
+                                {JSON.stringify(expanded.payload, null, 2)}
+                              </pre>
+                              {expanded.result && (
+                                <>
+                                  <p className="font-medium">Result</p>
+                                  <pre className="whitespace-pre-wrap break-all rounded bg-background p-2 text-xs">
+                                    {JSON.stringify(expanded.result, null, 2)}
+                                  </pre>
+                                </>
+                              )}
+                            </div>
+                            {(expanded.lastErrorStack || expanded.lastError) && (
+                              <div className="space-y-2 md:col-span-2">
+                                <p className="font-medium">Error</p>
+                                <pre className="whitespace-pre-wrap break-all rounded bg-background p-2 text-xs text-red-600">
+                                  {expanded.lastErrorStack || expanded.lastError}
+                                </pre>
+                              </div>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              No jobs match the current filters
+            </div>
+          )}
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1}
+                onClick={() => { setPage(prev => prev - 1); setSelected(new Set()) }}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= totalPages}
+                onClick={() => { setPage(prev => prev + 1); setSelected(new Set()) }}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
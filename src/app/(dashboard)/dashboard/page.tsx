@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Button } from '@/components/ui/button'
+import { EMOTIONS, Emotion } from '@/lib/emotions'
 import { 
   BarChart3, 
   MessageSquare, 
@@ -15,7 +16,8 @@ import {
   Calendar,
   Activity,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  XCircle
 } from 'lucide-react'
 
 interface DashboardStats {
@@ -28,17 +30,22 @@ interface DashboardStats {
     negative: number
     neutral: number
   }
+  emotionBreakdown: Record<Emotion, number> & {
+    analyzed: number
+  }
   recentActivity: Array<{
     id: string
     type: string
     message: string
     timestamp: string
+    status: 'SUCCESS' | 'FAILED'
   }>
   queueStats: {
     queued: number
     running: number
     completed: number
     failed: number
+    deadLetter: number
   }
 }
 
@@ -213,6 +220,34 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
 
+        {/* Emotion Breakdown */}
+        {stats && stats.emotionBreakdown.analyzed > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Emotion Breakdown</CardTitle>
+              <CardDescription>
+                Dominant emotion across {stats.emotionBreakdown.analyzed} comments with emotion scores
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {EMOTIONS.map((emotion) => (
+                <div key={emotion} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium capitalize">{emotion}</span>
+                    <Badge variant="secondary">
+                      {stats.emotionBreakdown[emotion]}
+                    </Badge>
+                  </div>
+                  <Progress 
+                    value={(stats.emotionBreakdown[emotion] / stats.emotionBreakdown.analyzed) * 100} 
+                    className="h-2"
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Job Queue Status */}
         <Card>
           <CardHeader>
@@ -251,10 +286,18 @@ export default function DashboardPage() {
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <AlertCircle className="h-4 w-4 text-red-500" />
-                    <span className="text-sm font-medium">Failed</span>
+                    <span className="text-sm font-medium">Retrying</span>
                   </div>
                   <Badge variant="outline">{stats.queueStats.failed}</Badge>
                 </div>
+                
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <XCircle className="h-4 w-4 text-red-700" />
+                    <span className="text-sm font-medium">Dead Letter</span>
+                  </div>
+                  <Badge variant="outline">{stats.queueStats.deadLetter}</Badge>
+                </div>
               </>
             ) : (
               <div className="text-center py-6 text-muted-foreground">
@@ -279,7 +322,11 @@ export default function DashboardPage() {
               {stats.recentActivity.map((activity) => (
                 <div key={activity.id} className="flex items-start gap-3">
                   <div className="flex-shrink-0">
-                    <Calendar className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    {activity.status === 'FAILED' ? (
+                      <AlertCircle className="h-4 w-4 text-red-500 mt-0.5" />
+                    ) : (
+                      <Calendar className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    )}
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium">{activity.message}</p>
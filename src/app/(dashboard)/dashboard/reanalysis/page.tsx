@@ -0,0 +1,430 @@
+// src/app/(dashboard)/dashboard/reanalysis/page.tsx
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ChevronDown, ChevronRight, RefreshCw, RotateCcw } from 'lucide-react'
+
+type Sentiment = 'POSITIVE' | 'NEUTRAL' | 'NEGATIVE'
+
+interface Campaign {
+  id: string
+  pageId: string | null
+  since: string | null
+  until: string | null
+  fromModelName: string | null
+  analyzerId: string | null
+  commentCount: number
+  analyzedCount: number
+  completedAt: string | null
+  createdAt: string
+}
+
+interface Comparison {
+  compared: number
+  changed: number
+  shifts: Array<{ from: Sentiment, to: Sentiment, count: number }>
+  models: Array<{
+    fromModel: string
+    toModel: string
+    count: number
+    changed: number
+    averageScoreChange: number
+    averageToxicityChange: number
+  }>
+  examples: Array<{
+    commentId: string
+    message: string
+    from: Sentiment
+    to: Sentiment
+    fromModel: string
+    toModel: string
+  }>
+}
+
+const SENTIMENTS: Sentiment[] = ['POSITIVE', 'NEUTRAL', 'NEGATIVE']
+
+const REFRESH_INTERVAL_MS = 5000
+
+export default function ReanalysisPage() {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([])
+  const [models, setModels] = useState<Array<{ modelName: string, count: number }>>([])
+  const [pages, setPages] = useState<Array<{ id: string, name: string }>>([])
+  const [analyzers, setAnalyzers] = useState<Array<{ id: string, name: string }>>([])
+  const [form, setForm] = useState({ pageId: 'all', fromModelName: 'all', analyzerId: 'default', since: '', until: '' })
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [starting, setStarting] = useState(false)
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      const response = await fetch('/api/reanalysis')
+      if (response.ok) {
+        const data = await response.json()
+        setCampaigns(data.campaigns || [])
+        setModels(data.models || [])
+      }
+    } catch (error) {
+      console.error('Error fetching reanalysis campaigns:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchOptions()
+  }, [])
+
+  // Poll while any campaign is still running
+  const hasRunning = campaigns.some(campaign => !campaign.completedAt)
+  useEffect(() => {
+    fetchCampaigns()
+    if (!hasRunning) return
+
+    const interval = setInterval(fetchCampaigns, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchCampaigns, hasRunning])
+
+  const fetchOptions = async () => {
+    try {
+      const [pagesResponse, analyzersResponse] = await Promise.all([
+        fetch('/api/pages'),
+        fetch('/api/analyzers')
+      ])
+
+      if (pagesResponse.ok) {
+        const data = await pagesResponse.json()
+        setPages(data.pages || [])
+      }
+      if (analyzersResponse.ok) {
+        const data = await analyzersResponse.json()
+        setAnalyzers(data.analyzers || [])
+      }
+    } catch (error) {
+      console.error('Error fetching reanalysis options:', error)
+    }
+  }
+
+  const startCampaign = async () => {
+    setStarting(true)
+    try {
+      const response = await fetch('/api/reanalysis', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          pageId: form.pageId === 'all' ? null : form.pageId,
+          fromModelName: form.fromModelName === 'all' ? null : form.fromModelName,
+          analyzerId: form.analyzerId === 'default' ? null : form.analyzerId,
+          since: form.since ? new Date(form.since).toISOString() : null,
+          until: form.until ? new Date(`${form.until}T23:59:59.999`).toISOString() : null
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        alert(data.error || 'Failed to start reanalysis')
+        return
+      }
+
+      await fetchCampaigns()
+    } catch (error) {
+      console.error('Error starting reanalysis:', error)
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const toggleExpanded = async (campaignId: string) => {
+    if (expanded === campaignId) {
+      setExpanded(null)
+      return
+    }
+
+    setExpanded(campaignId)
+    setComparison(null)
+    try {
+      const response = await fetch(`/api/reanalysis/${campaignId}`)
+      if (response.ok) {
+        const data = await response.json()
+        setComparison(data.comparison)
+      }
+    } catch (error) {
+      console.error('Error fetching campaign comparison:', error)
+    }
+  }
+
+  const pageName = (pageId: string | null) => {
+    return pageId ? pages.find(page => page.id === pageId)?.name || 'Unknown page' : 'All pages'
+  }
+
+  const describeTargets = (campaign: Campaign) => {
+    const parts = [pageName(campaign.pageId)]
+    if (campaign.fromModelName) parts.push(`from ${campaign.fromModelName}`)
+    if (campaign.since || campaign.until) {
+      parts.push(`${campaign.since ? new Date(campaign.since).toLocaleDateString() : '…'} – ${campaign.until ? new Date(campaign.until).toLocaleDateString() : '…'}`)
+    }
+    return parts.join(' • ')
+  }
+
+  const formatChange = (value: number) => {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(3)}`
+  }
+
+  const shiftCount = (from: Sentiment, to: Sentiment) => {
+    return comparison?.shifts.find(shift => shift.from === from && shift.to === to)?.count ?? 0
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Re-analysis</h1>
+          <p className="text-muted-foreground">
+            Re-run sentiment analysis on existing comments and compare the results with earlier versions
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchCampaigns}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Campaign</CardTitle>
+          <CardDescription>
+            Matching comments get a new analysis version; earlier versions are kept for comparison
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Page</Label>
+              <Select value={form.pageId} onValueChange={(value) => setForm(prev => ({ ...prev, pageId: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All pages</SelectItem>
+                  {pages.map((page) => (
+                    <SelectItem key={page.id} value={page.id}>
+                      {page.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Current model</Label>
+              <Select value={form.fromModelName} onValueChange={(value) => setForm(prev => ({ ...prev, fromModelName: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any model</SelectItem>
+                  {models.map((model) => (
+                    <SelectItem key={model.modelName} value={model.modelName}>
+                      {model.modelName} ({model.count})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Analyzer</Label>
+              <Select value={form.analyzerId} onValueChange={(value) => setForm(prev => ({ ...prev, analyzerId: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Page or account default</SelectItem>
+                  {analyzers.map((analyzer) => (
+                    <SelectItem key={analyzer.id} value={analyzer.id}>
+                      {analyzer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="since">Comments From</Label>
+              <Input
+                id="since"
+                type="date"
+                value={form.since}
+                onChange={(e) => setForm(prev => ({ ...prev, since: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="until">Comments To</Label>
+              <Input
+                id="until"
+                type="date"
+                value={form.until}
+                onChange={(e) => setForm(prev => ({ ...prev, until: e.target.value }))}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button onClick={startCampaign} disabled={starting} className="w-full">
+                <RotateCcw className="mr-2 h-4 w-4" />
+                {starting ? 'Starting...' : 'Start Re-analysis'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Campaigns</CardTitle>
+          <CardDescription>
+            Expand a campaign to see how labels shifted from the versions it replaced
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {campaigns.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No re-analysis campaigns yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Started</TableHead>
+                  <TableHead>Comments</TableHead>
+                  <TableHead>Analyzer</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map((campaign) => (
+                  <Fragment key={campaign.id}>
+                    <TableRow className="cursor-pointer" onClick={() => toggleExpanded(campaign.id)}>
+                      <TableCell>
+                        {expanded === campaign.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell>{new Date(campaign.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">{describeTargets(campaign)}</TableCell>
+                      <TableCell className="text-sm">
+                        {analyzers.find(analyzer => analyzer.id === campaign.analyzerId)?.name || 'Default'}
+                      </TableCell>
+                      <TableCell className="w-48">
+                        <div className="space-y-1">
+                          <Progress value={campaign.commentCount > 0 ? (campaign.analyzedCount / campaign.commentCount) * 100 : 100} />
+                          <p className="text-xs text-muted-foreground">
+                            {campaign.analyzedCount} / {campaign.commentCount}
+                          </p>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={campaign.completedAt ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}>
+                          {campaign.completedAt ? 'Completed' : 'Running'}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                    {expanded === campaign.id && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="bg-muted/30">
+                          {!comparison ? (
+                            <p className="text-sm text-muted-foreground">Loading comparison...</p>
+                          ) : comparison.compared === 0 ? (
+                            <p className="text-sm text-muted-foreground">No comments have been re-analyzed yet</p>
+                          ) : (
+                            <div className="space-y-6 py-2">
+                              <p className="text-sm">
+                                {comparison.changed} of {comparison.compared} comments changed label
+                                ({((comparison.changed / comparison.compared) * 100).toFixed(1)}%)
+                              </p>
+
+                              <div className="grid gap-6 lg:grid-cols-2">
+                                <div>
+                                  <h4 className="mb-2 text-sm font-medium">Label shifts (rows: before, columns: after)</h4>
+                                  <Table>
+                                    <TableHeader>
+                                      <TableRow>
+                                        <TableHead />
+                                        {SENTIMENTS.map((to) => (
+                                          <TableHead key={to}>{to}</TableHead>
+                                        ))}
+                                      </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                      {SENTIMENTS.map((from) => (
+                                        <TableRow key={from}>
+                                          <TableCell className="font-medium">{from}</TableCell>
+                                          {SENTIMENTS.map((to) => (
+                                            <TableCell key={to} className={from === to ? 'text-muted-foreground' : 'font-semibold'}>
+                                              {shiftCount(from, to)}
+                                            </TableCell>
+                                          ))}
+                                        </TableRow>
+                                      ))}
+                                    </TableBody>
+                                  </Table>
+                                </div>
+
+                                <div>
+                                  <h4 className="mb-2 text-sm font-medium">Models</h4>
+                                  <Table>
+                                    <TableHeader>
+                                      <TableRow>
+                                        <TableHead>Before → After</TableHead>
+                                        <TableHead>Comments</TableHead>
+                                        <TableHead>Changed</TableHead>
+                                        <TableHead>Score Δ</TableHead>
+                                        <TableHead>Toxicity Δ</TableHead>
+                                      </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                      {comparison.models.map((model) => (
+                                        <TableRow key={`${model.fromModel}-${model.toModel}`}>
+                                          <TableCell className="text-xs">{model.fromModel} → {model.toModel}</TableCell>
+                                          <TableCell>{model.count}</TableCell>
+                                          <TableCell>{model.changed}</TableCell>
+                                          <TableCell>{formatChange(model.averageScoreChange)}</TableCell>
+                                          <TableCell>{formatChange(model.averageToxicityChange)}</TableCell>
+                                        </TableRow>
+                                      ))}
+                                    </TableBody>
+                                  </Table>
+                                </div>
+                              </div>
+
+                              {comparison.examples.length > 0 && (
+                                <div>
+                                  <h4 className="mb-2 text-sm font-medium">Changed comments</h4>
+                                  <div className="space-y-2">
+                                    {comparison.examples.map((example) => (
+                                      <div key={example.commentId} className="rounded border bg-white p-2 text-sm">
+                                        <p className="line-clamp-2">{example.message}</p>
+                                        <p className="mt-1 text-xs text-muted-foreground">
+                                          {example.from} ({example.fromModel}) → {example.to} ({example.toModel})
+                                        </p>
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 'use client'
 
 import { useState } from 'react'
+import CommentThreads from '@/components/CommentThreads'
+import ReviewQueue from '@/components/ReviewQueue'
 
 interface SentimentData {
   positive: number
@@ -129,6 +131,14 @@ export default function InstagramExplorer() {
         </div>
       </div>
 
+      <div style={{ marginBottom: '24px' }}>
+        <CommentThreads />
+      </div>
+
+      <div style={{ marginBottom: '24px' }}>
+        <ReviewQueue />
+      </div>
+
       {result && (
         <div style={{ 
           backgroundColor: 'white', 
@@ -26,13 +26,19 @@ interface ExportOptions {
   dateTo: string
   pageId: string
   sentiment: string
+  needsReview: boolean
   includeFields: {
     commentId: boolean
     authorName: boolean
     message: boolean
     sentiment: boolean
+    modelSentiment: boolean
+    labelSource: boolean
+    reviewNote: boolean
     sentimentScore: boolean
     toxicityScore: boolean
+    dominantEmotion: boolean
+    emotionScores: boolean
     keywords: boolean
     platform: boolean
     createdTime: boolean
@@ -50,13 +56,19 @@ export default function ExportPage() {
     dateTo: '',
     pageId: '',
     sentiment: '',
+    needsReview: false,
     includeFields: {
       commentId: true,
       authorName: true,
       message: true,
       sentiment: true,
+      modelSentiment: false,
+      labelSource: true,
+      reviewNote: false,
       sentimentScore: true,
       toxicityScore: false,
+      dominantEmotion: false,
+      emotionScores: false,
       keywords: true,
       platform: true,
       createdTime: true,
@@ -127,6 +139,7 @@ export default function ExportPage() {
         ...(options.dateTo && { dateTo: options.dateTo }),
         ...(options.pageId && { pageId: options.pageId }),
         ...(options.sentiment && { sentiment: options.sentiment }),
+        ...(options.needsReview && { needsReview: 'true' }),
         fields: Object.entries(options.includeFields)
           .filter(([_, include]) => include)
           .map(([field]) => field)
@@ -299,6 +312,16 @@ export default function ExportPage() {
                     <SelectItem value="NEGATIVE">Negative</SelectItem>
                   </SelectContent>
                 </Select>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="needsReview"
+                    checked={options.needsReview}
+                    onCheckedChange={(checked) => setOptions(prev => ({ ...prev, needsReview: checked === true }))}
+                  />
+                  <Label htmlFor="needsReview" className="text-sm font-normal">
+                    Only comments flagged for review
+                  </Label>
+                </div>
               </div>
             </div>
 
@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import AspectInsights, { AspectInsightsData } from '@/components/AspectInsights'
+import { EMOTIONS, Emotion } from '@/lib/emotions'
 import { 
   BarChart, 
   Bar, 
@@ -52,8 +54,15 @@ interface InsightsData {
   topKeywords: Array<{
     keyword: string
     count: number
+    score: number
     sentiment: 'positive' | 'negative' | 'neutral'
   }>
+  topEmojis: Array<{
+    emoji: string
+    count: number
+    comments: number
+    polarity: number | null
+  }>
   toxicityTrends: Array<{
     date: string
     averageToxicity: number
@@ -65,6 +74,55 @@ interface InsightsData {
     totalLikes: number
     averageSentiment: number
   }>
+  threads: {
+    totalThreads: number
+    positive: number
+    negative: number
+    neutral: number
+    topThreads: Array<{
+      commentId: string
+      pageName: string
+      authorName: string | null
+      message: string
+      createdTime: string
+      rootSentiment: 'positive' | 'negative' | 'neutral' | null
+      sentiment: 'positive' | 'negative' | 'neutral'
+      commentCount: number
+      averagePolarity: number
+    }>
+  }
+  postTone: {
+    analyzedPosts: number
+    mismatchedPosts: number
+    byPostSentiment: Array<{
+      postSentiment: 'positive' | 'negative' | 'neutral'
+      posts: number
+      audiencePositive: number
+      audienceNegative: number
+      audienceNeutral: number
+      averageAudiencePolarity: number
+    }>
+    mismatches: Array<{
+      postId: string
+      pageName: string
+      content: string
+      postSentiment: 'positive' | 'negative' | 'neutral'
+      audienceSentiment: 'positive' | 'negative' | 'neutral'
+      toneGap: number | null
+      analyzedComments: number
+    }>
+  }
+  aspects: AspectInsightsData
+  languages: Array<{
+    language: string | null
+    name: string
+    total: number
+    positive: number
+    negative: number
+    neutral: number
+  }>
+  emotionsOverTime: Array<Record<Emotion, number> & { date: string }>
+  emotionBreakdown: Record<Emotion, number> & { analyzed: number }
   summary: {
     totalComments: number
     averageSentiment: number
@@ -80,11 +138,21 @@ const SENTIMENT_COLORS = {
   neutral: '#6b7280'
 }
 
+const EMOTION_COLORS: Record<Emotion, string> = {
+  anger: '#dc2626',
+  disgust: '#65a30d',
+  fear: '#7c3aed',
+  joy: '#f59e0b',
+  sadness: '#2563eb',
+  surprise: '#db2777'
+}
+
 export default function InsightsPage() {
   const [data, setData] = useState<InsightsData | null>(null)
   const [loading, setLoading] = useState(true)
   const [timeRange, setTimeRange] = useState('30d')
   const [selectedPage, setSelectedPage] = useState('all')
+  const [activeTab, setActiveTab] = useState('sentiment')
   const [pages, setPages] = useState<Array<{id: string, name: string}>>([])
 
   useEffect(() => {
@@ -288,12 +356,17 @@ export default function InsightsPage() {
       )}
 
       {/* Charts */}
-      <Tabs defaultValue="sentiment" className="space-y-4">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList>
           <TabsTrigger value="sentiment">Sentiment Analysis</TabsTrigger>
           <TabsTrigger value="engagement">Engagement</TabsTrigger>
           <TabsTrigger value="toxicity">Toxicity</TabsTrigger>
+          <TabsTrigger value="emotions">Emotions</TabsTrigger>
           <TabsTrigger value="keywords">Keywords</TabsTrigger>
+          <TabsTrigger value="threads">Conversations</TabsTrigger>
+          <TabsTrigger value="postTone">Post Tone</TabsTrigger>
+          <TabsTrigger value="aspects">Aspects</TabsTrigger>
+          <TabsTrigger value="languages">Languages</TabsTrigger>
         </TabsList>
 
         <TabsContent value="sentiment" className="space-y-4">
@@ -437,42 +510,199 @@ export default function InsightsPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="emotions" className="space-y-4">
+          <div className="grid gap-6 md:grid-cols-3">
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>Emotions Over Time</CardTitle>
+                <CardDescription>
+                  Comments by dominant emotion
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={data?.emotionsOverTime || []}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    {EMOTIONS.map((emotion) => (
+                      <Bar key={emotion} dataKey={emotion} stackId="emotions" fill={EMOTION_COLORS[emotion]} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Emotion Breakdown</CardTitle>
+                <CardDescription>
+                  {data?.emotionBreakdown?.analyzed || 0} comments with emotion scores
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <PieChart>
+                    <Pie
+                      data={EMOTIONS.map((emotion) => ({
+                        name: emotion,
+                        value: data?.emotionBreakdown?.[emotion] || 0
+                      }))}
+                      dataKey="value"
+                      nameKey="name"
+                      outerRadius={100}
+                      label
+                    >
+                      {EMOTIONS.map((emotion) => (
+                        <Cell key={emotion} fill={EMOTION_COLORS[emotion]} />
+                      ))}
+                    </Pie>
+                    <Tooltip />
+                  </PieChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
         <TabsContent value="keywords" className="space-y-4">
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Keywords</CardTitle>
+                <CardDescription>
+                  Phrases, hashtags and mentions ranked by TF-IDF across posts, with their dominant sentiment
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {data?.topKeywords?.slice(0, 10).map((keyword, index) => (
+                    <div key={keyword.keyword} className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm font-medium w-8">{index + 1}</span>
+                        <span className="font-medium">{keyword.keyword}</span>
+                        <Badge 
+                          variant="secondary" 
+                          className={
+                            keyword.sentiment === 'positive' ? 'bg-green-100 text-green-800' :
+                            keyword.sentiment === 'negative' ? 'bg-red-100 text-red-800' :
+                            'bg-gray-100 text-gray-800'
+                          }
+                        >
+                          {keyword.sentiment}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="w-24 bg-gray-200 rounded-full h-2">
+                          <div 
+                            className="bg-blue-600 h-2 rounded-full" 
+                            style={{ 
+                              width: `${Math.min(100, (keyword.score / (data.topKeywords[0]?.score || 1)) * 100)}%` 
+                            }}
+                          />
+                        </div>
+                        <span className="text-sm font-medium w-12 text-right">{keyword.count}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Emojis</CardTitle>
+                <CardDescription>
+                  Most used emojis in comments, with their lexicon polarity
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {data?.topEmojis?.map((emoji) => (
+                    <div key={emoji.emoji} className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <span className="text-2xl w-8">{emoji.emoji}</span>
+                        <span className="text-sm text-muted-foreground">{emoji.comments} comments</span>
+                        {emoji.polarity !== null && (
+                          <Badge
+                            variant="secondary"
+                            className={
+                              emoji.polarity > 0 ? 'bg-green-100 text-green-800' :
+                              emoji.polarity < 0 ? 'bg-red-100 text-red-800' :
+                              'bg-gray-100 text-gray-800'
+                            }
+                          >
+                            {emoji.polarity > 0 ? '+' : ''}{emoji.polarity.toFixed(1)}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="w-24 bg-gray-200 rounded-full h-2">
+                          <div
+                            className="bg-blue-600 h-2 rounded-full"
+                            style={{
+                              width: `${Math.min(100, (emoji.count / (data.topEmojis[0]?.count || 1)) * 100)}%`
+                            }}
+                          />
+                        </div>
+                        <span className="text-sm font-medium w-12 text-right">{emoji.count}</span>
+                      </div>
+                    </div>
+                  ))}
+                  {data?.topEmojis?.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No emojis in this range</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="threads" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Top Keywords</CardTitle>
+              <CardTitle>Conversation Sentiment</CardTitle>
               <CardDescription>
-                Most frequently mentioned keywords by sentiment
+                {data?.threads?.totalThreads || 0} threads by overall sentiment of the root comment and its replies
               </CardDescription>
             </CardHeader>
             <CardContent>
+              <div className="grid gap-4 md:grid-cols-3 mb-6">
+                {(['positive', 'neutral', 'negative'] as const).map((sentiment) => (
+                  <div key={sentiment} className="rounded-lg border p-4">
+                    <div className="text-sm text-muted-foreground capitalize">{sentiment}</div>
+                    <div className="text-2xl font-bold" style={{ color: SENTIMENT_COLORS[sentiment] }}>
+                      {data?.threads?.[sentiment] || 0}
+                    </div>
+                  </div>
+                ))}
+              </div>
               <div className="space-y-4">
-                {data?.topKeywords?.slice(0, 10).map((keyword, index) => (
-                  <div key={keyword.keyword} className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <span className="text-sm font-medium w-8">{index + 1}</span>
-                      <span className="font-medium">{keyword.keyword}</span>
+                {data?.threads?.topThreads?.map((thread) => (
+                  <div key={thread.commentId} className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="font-medium">{thread.authorName || 'Unknown'}</span>
+                        <span className="text-muted-foreground">on {thread.pageName}</span>
+                      </div>
+                      <p className="text-sm line-clamp-2">{thread.message}</p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {thread.rootSentiment && thread.rootSentiment !== thread.sentiment && (
+                        <span className="text-xs text-muted-foreground">{thread.rootSentiment} →</span>
+                      )}
                       <Badge 
                         variant="secondary" 
                         className={
-                          keyword.sentiment === 'positive' ? 'bg-green-100 text-green-800' :
-                          keyword.sentiment === 'negative' ? 'bg-red-100 text-red-800' :
+                          thread.sentiment === 'positive' ? 'bg-green-100 text-green-800' :
+                          thread.sentiment === 'negative' ? 'bg-red-100 text-red-800' :
                           'bg-gray-100 text-gray-800'
                         }
                       >
-                        {keyword.sentiment}
+                        {thread.sentiment}
                       </Badge>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <div className="w-24 bg-gray-200 rounded-full h-2">
-                        <div 
-                          className="bg-blue-600 h-2 rounded-full" 
-                          style={{ 
-                            width: `${Math.min(100, (keyword.count / (data.topKeywords[0]?.count || 1)) * 100)}%` 
-                          }}
-                        />
-                      </div>
-                      <span className="text-sm font-medium w-12 text-right">{keyword.count}</span>
+                      <span className="text-sm font-medium w-16 text-right">{thread.commentCount} msgs</span>
                     </div>
                   </div>
                 ))}
@@ -480,6 +710,89 @@ export default function InsightsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="postTone" className="space-y-4">
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Post Tone vs. Audience Reaction</CardTitle>
+                <CardDescription>
+                  How audiences reacted to {data?.postTone?.analyzedPosts || 0} posts, grouped by the tone of the post
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={data?.postTone?.byPostSentiment || []}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="postSentiment" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="audiencePositive" name="Positive reaction" fill={SENTIMENT_COLORS.positive} />
+                    <Bar dataKey="audienceNeutral" name="Neutral reaction" fill={SENTIMENT_COLORS.neutral} />
+                    <Bar dataKey="audienceNegative" name="Negative reaction" fill={SENTIMENT_COLORS.negative} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Tone Mismatches</CardTitle>
+                <CardDescription>
+                  {data?.postTone?.mismatchedPosts || 0} posts where the audience reacted against the post&apos;s tone
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {data?.postTone?.mismatches?.map((post) => (
+                    <div key={post.postId} className="flex items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <div className="text-sm text-muted-foreground">{post.pageName}</div>
+                        <p className="text-sm line-clamp-2">{post.content}</p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0 text-sm">
+                        <span style={{ color: SENTIMENT_COLORS[post.postSentiment] }}>{post.postSentiment}</span>
+                        <span className="text-muted-foreground">→</span>
+                        <span style={{ color: SENTIMENT_COLORS[post.audienceSentiment] }}>{post.audienceSentiment}</span>
+                        <span className="w-16 text-right font-medium">
+                          {post.toneGap !== null ? post.toneGap.toFixed(2) : '-'}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="aspects" className="space-y-4">
+          <AspectInsights data={data?.aspects} onAspectsChanged={fetchInsights} />
+        </TabsContent>
+
+        <TabsContent value="languages" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Sentiment by Language</CardTitle>
+              <CardDescription>
+                Comments grouped by detected language; very short or mixed text is counted as Unknown
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={350}>
+                <BarChart data={data?.languages || []}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip />
+                  <Bar dataKey="positive" stackId="language" fill={SENTIMENT_COLORS.positive} />
+                  <Bar dataKey="neutral" stackId="language" fill={SENTIMENT_COLORS.neutral} />
+                  <Bar dataKey="negative" stackId="language" fill={SENTIMENT_COLORS.negative} />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -7,6 +7,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { 
   Plus, 
   Facebook, 
@@ -18,7 +20,8 @@ import {
   Trash2,
   RefreshCw,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  Clock
 } from 'lucide-react'
 
 interface Page {
@@ -28,6 +31,7 @@ interface Page {
   name: string
   pictureUrl?: string
   isActive: boolean
+  analyzerId: string | null
   createdAt: string
   updatedAt: string
   _count?: {
@@ -35,14 +39,56 @@ interface Page {
   }
 }
 
+interface SyncSchedule {
+  id: string
+  pageId: string | null
+  jobType: 'FETCH_POSTS' | 'REFRESH_TOKENS' | 'CLEANUP_DATA'
+  intervalMinutes: number
+  isActive: boolean
+  lastRunAt: string | null
+  lastSuccessAt: string | null
+  nextRunAt: string
+}
+
+interface AnalyzerOption {
+  id: string
+  name: string
+}
+
+interface ModelResponseStats {
+  modelName: string
+  rejected: number
+  repaired: number
+  lastError: string | null
+  lastRejectedAt: string | null
+}
+
+const SYNC_INTERVALS = [
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 60, label: 'Hourly' },
+  { minutes: 360, label: 'Every 6 hours' },
+  { minutes: 1440, label: 'Daily' }
+]
+
+const MAINTENANCE_INTERVALS = [
+  { minutes: 1440, label: 'Daily' },
+  { minutes: 10080, label: 'Weekly' }
+]
+
 export default function PagesPage() {
   const { data: session } = useSession()
   const [pages, setPages] = useState<Page[]>([])
   const [loading, setLoading] = useState(true)
   const [connectingPages, setConnectingPages] = useState(false)
+  const [schedules, setSchedules] = useState<SyncSchedule[]>([])
+  const [analyzers, setAnalyzers] = useState<AnalyzerOption[]>([])
+  const [defaultAnalyzerId, setDefaultAnalyzerId] = useState<string | null>(null)
+  const [responseStats, setResponseStats] = useState<ModelResponseStats[]>([])
 
   useEffect(() => {
     fetchPages()
+    fetchSchedules()
+    fetchAnalyzers()
   }, [])
 
   const fetchPages = async () => {
@@ -59,6 +105,109 @@ export default function PagesPage() {
     }
   }
 
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch('/api/schedules')
+      if (response.ok) {
+        const data = await response.json()
+        setSchedules(data.schedules || [])
+      }
+    } catch (error) {
+      console.error('Error fetching schedules:', error)
+    }
+  }
+
+  const fetchAnalyzers = async () => {
+    try {
+      const response = await fetch('/api/analyzers')
+      if (response.ok) {
+        const data = await response.json()
+        setAnalyzers(data.analyzers || [])
+        setDefaultAnalyzerId(data.analyzerId)
+        setResponseStats(data.responseStats || [])
+      }
+    } catch (error) {
+      console.error('Error fetching analyzers:', error)
+    }
+  }
+
+  // "default" clears the preference so the next level up decides
+  const updateDefaultAnalyzer = async (value: string) => {
+    try {
+      const response = await fetch('/api/analyzers', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ analyzerId: value === 'default' ? null : value })
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setDefaultAnalyzerId(data.analyzerId)
+      }
+    } catch (error) {
+      console.error('Error updating default analyzer:', error)
+    }
+  }
+
+  const updatePageAnalyzer = async (pageId: string, value: string) => {
+    try {
+      const response = await fetch(`/api/pages/${pageId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ analyzerId: value === 'default' ? null : value })
+      })
+      if (response.ok) {
+        await fetchPages()
+      }
+    } catch (error) {
+      console.error('Error updating page analyzer:', error)
+    }
+  }
+
+  const analyzerName = (analyzerId: string | null) => {
+    return analyzers.find(analyzer => analyzer.id === analyzerId)?.name
+  }
+
+  const findSchedule = (jobType: SyncSchedule['jobType'], pageId: string | null) => {
+    return schedules.find(schedule => schedule.jobType === jobType && schedule.pageId === pageId)
+  }
+
+  // "off" pauses the existing schedule; any other value is an interval in minutes
+  const updateSchedule = async (jobType: SyncSchedule['jobType'], pageId: string | null, value: string) => {
+    const existing = findSchedule(jobType, pageId)
+
+    try {
+      const response = value === 'off'
+        ? existing && await fetch(`/api/schedules/${existing.id}`, {
+            method: 'PATCH',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ isActive: false })
+          })
+        : await fetch('/api/schedules', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ jobType, pageId, intervalMinutes: parseInt(value, 10), isActive: true })
+          })
+      if (response && response.ok) {
+        await fetchSchedules()
+      }
+    } catch (error) {
+      console.error('Error updating schedule:', error)
+    }
+  }
+
+  const scheduleValue = (jobType: SyncSchedule['jobType'], pageId: string | null) => {
+    const schedule = findSchedule(jobType, pageId)
+    return schedule?.isActive ? String(schedule.intervalMinutes) : 'off'
+  }
+
   const connectPages = async () => {
     setConnectingPages(true)
     try {
@@ -216,6 +365,68 @@ export default function PagesPage() {
         </Dialog>
       </div>
 
+      {/* Maintenance Schedules */}
+      {pages.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Maintenance</CardTitle>
+            <CardDescription>
+              Recurring jobs and the analyzer used across all of your connected pages
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            {([
+              ['REFRESH_TOKENS', 'Refresh access tokens'],
+              ['CLEANUP_DATA', 'Remove data past its retention period']
+            ] as const).map(([jobType, label]) => (
+              <div key={jobType} className="space-y-2">
+                <Label>{label}</Label>
+                <Select
+                  value={scheduleValue(jobType, null)}
+                  onValueChange={(value) => updateSchedule(jobType, null, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Off</SelectItem>
+                    {MAINTENANCE_INTERVALS.map((interval) => (
+                      <SelectItem key={interval.minutes} value={String(interval.minutes)}>
+                        {interval.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label>Sentiment analyzer</Label>
+              <Select
+                value={defaultAnalyzerId || 'default'}
+                onValueChange={updateDefaultAnalyzer}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Server default</SelectItem>
+                  {analyzers.map((analyzer) => (
+                    <SelectItem key={analyzer.id} value={analyzer.id}>
+                      {analyzer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {responseStats.map((stat) => (
+                <p key={stat.modelName} className="text-xs text-muted-foreground" title={stat.lastError || undefined}>
+                  {stat.modelName}: {stat.rejected} rejected {stat.rejected === 1 ? 'response' : 'responses'}, {stat.repaired} repaired
+                </p>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Pages Grid */}
       {pages.length > 0 ? (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
@@ -255,6 +466,55 @@ export default function PagesPage() {
                   </span>
                 </div>
 
+                <div className="space-y-2">
+                  <Label className="text-sm text-muted-foreground">Auto-sync</Label>
+                  <Select
+                    value={scheduleValue('FETCH_POSTS', page.id)}
+                    onValueChange={(value) => updateSchedule('FETCH_POSTS', page.id, value)}
+                    disabled={!page.isActive}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">Off</SelectItem>
+                      {SYNC_INTERVALS.map((interval) => (
+                        <SelectItem key={interval.minutes} value={String(interval.minutes)}>
+                          {interval.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {findSchedule('FETCH_POSTS', page.id)?.lastSuccessAt && (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      Last synced {new Date(findSchedule('FETCH_POSTS', page.id)!.lastSuccessAt!).toLocaleString()}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-sm text-muted-foreground">Analyzer</Label>
+                  <Select
+                    value={page.analyzerId || 'default'}
+                    onValueChange={(value) => updatePageAnalyzer(page.id, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">
+                        Account default{analyzerName(defaultAnalyzerId) ? ` (${analyzerName(defaultAnalyzerId)})` : ''}
+                      </SelectItem>
+                      {analyzers.map((analyzer) => (
+                        <SelectItem key={analyzer.id} value={analyzer.id}>
+                          {analyzer.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="flex gap-2 pt-2">
                   <Button
                     variant="outline"
@@ -0,0 +1,68 @@
+// src/app/api/activity/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { ACTIVITY_TYPES, ActivityType, getActivityFeed } from '@/lib/activity'
+
+const prisma = new PrismaClient()
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams
+    const page = parseInt(searchParams.get('page') || '1', 10) || 1
+    const limit = parseInt(searchParams.get('limit') || '20', 10) || 20
+    const types = searchParams.get('type')?.split(',').filter(Boolean) || []
+
+    const invalidTypes = types.filter(type => !ACTIVITY_TYPES.includes(type as ActivityType))
+    if (invalidTypes.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid activity type: ${invalidTypes.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { activities, hasMore } = await getActivityFeed(user.id, {
+      types: types as ActivityType[],
+      page,
+      limit
+    })
+
+    return NextResponse.json({
+      activities,
+      pagination: {
+        page,
+        limit,
+        hasMore
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching activity:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
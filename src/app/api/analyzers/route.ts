@@ -0,0 +1,96 @@
+// src/app/api/analyzers/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { AnalysisEngine } from '@/lib/analysis'
+import { getResponseStats } from '@/lib/response-stats'
+
+const prisma = new PrismaClient()
+
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      analyzers: AnalysisEngine.getInstance().listAnalyzers(),
+      analyzerId: user.analyzerId,
+      responseStats: await getResponseStats()
+    })
+
+  } catch (error) {
+    console.error('Error fetching analyzers:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Set the user's default analyzer; null goes back to the engine default
+export async function PUT(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { analyzerId } = body
+
+    if (analyzerId !== null && (typeof analyzerId !== 'string' || !AnalysisEngine.getInstance().hasAnalyzer(analyzerId))) {
+      return NextResponse.json(
+        { error: 'Unknown analyzer' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { analyzerId }
+    })
+
+    return NextResponse.json({ analyzerId: updated.analyzerId })
+
+  } catch (error) {
+    console.error('Error updating analyzer preference:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
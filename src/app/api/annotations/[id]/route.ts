@@ -0,0 +1,69 @@
+// src/app/api/annotations/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { deleteAnnotation } from '@/lib/annotations'
+
+const prisma = new PrismaClient()
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+
+    const annotation = await prisma.annotation.findFirst({
+      where: {
+        id,
+        comment: {
+          post: {
+            page: {
+              ownerUserId: user.id
+            }
+          }
+        }
+      }
+    })
+
+    if (!annotation) {
+      return NextResponse.json(
+        { error: 'Annotation not found' },
+        { status: 404 }
+      )
+    }
+
+    // The comment goes back to its model label, and back into the review queue if it qualifies
+    await deleteAnnotation(annotation.id)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error deleting annotation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,185 @@
+// src/app/api/annotations/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient, Sentiment } from '@prisma/client'
+import { MAX_NOTE_LENGTH, saveAnnotation } from '@/lib/annotations'
+
+const prisma = new PrismaClient()
+
+const MAX_PAGE_SIZE = 100
+
+// Recent annotations on the user's comments, with the model label each one overrides
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20))
+
+    const where = {
+      comment: {
+        post: {
+          page: {
+            ownerUserId: user.id
+          }
+        }
+      }
+    }
+
+    const [annotations, total] = await Promise.all([
+      prisma.annotation.findMany({
+        where,
+        include: {
+          user: {
+            select: { name: true, email: true }
+          },
+          comment: {
+            select: {
+              message: true,
+              analysis: {
+                where: { isCurrent: true },
+                select: { sentimentLabel: true, toxicityScore: true, modelName: true },
+                take: 1
+              }
+            }
+          }
+        },
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.annotation.count({ where })
+    ])
+
+    return NextResponse.json({
+      annotations: annotations.map(({ comment, ...annotation }) => ({
+        ...annotation,
+        message: comment.message,
+        modelLabel: comment.analysis[0] || null
+      })),
+      pagination: {
+        page,
+        limit,
+        total
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching annotations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Label a comment; saving again replaces the earlier annotation
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { commentId, sentimentLabel, isToxic, note } = body
+
+    // Validate input
+    if (!commentId || typeof commentId !== 'string') {
+      return NextResponse.json(
+        { error: 'Comment ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!Object.values(Sentiment).includes(sentimentLabel)) {
+      return NextResponse.json(
+        { error: `sentimentLabel must be one of ${Object.values(Sentiment).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (isToxic !== undefined && isToxic !== null && typeof isToxic !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isToxic must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+      return NextResponse.json(
+        { error: `Note must be text of at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const comment = await prisma.comment.findFirst({
+      where: {
+        id: commentId,
+        post: {
+          page: {
+            ownerUserId: user.id
+          }
+        }
+      }
+    })
+
+    if (!comment) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+
+    const annotation = await saveAnnotation(user.id, comment.id, {
+      sentimentLabel,
+      isToxic,
+      note: typeof note === 'string' ? note.trim() : null
+    })
+
+    return NextResponse.json({ annotation })
+
+  } catch (error) {
+    console.error('Error saving annotation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,146 @@
+// src/app/api/aspects/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient, Prisma } from '@prisma/client'
+import { MAX_SYNONYMS_PER_ASPECT, normalizeTerms } from '@/lib/aspects'
+
+const prisma = new PrismaClient()
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+
+    const aspect = await prisma.aspect.findFirst({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (!aspect) {
+      return NextResponse.json(
+        { error: 'Aspect not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { synonyms, isActive } = body
+
+    const data: Prisma.AspectUpdateInput = {}
+
+    // Renaming would change what existing mentions refer to, so only synonyms are editable
+    if (synonyms !== undefined) {
+      const terms = normalizeTerms(synonyms)
+
+      if (!terms || terms.length > MAX_SYNONYMS_PER_ASPECT) {
+        return NextResponse.json(
+          { error: `Synonyms must be a list of at most ${MAX_SYNONYMS_PER_ASPECT} terms` },
+          { status: 400 }
+        )
+      }
+
+      data.synonyms = terms.filter(term => term !== aspect.name)
+    }
+
+    if (isActive !== undefined) {
+      data.isActive = Boolean(isActive)
+    }
+
+    const updated = await prisma.aspect.update({
+      where: { id: aspect.id },
+      data
+    })
+
+    return NextResponse.json({ aspect: updated })
+
+  } catch (error) {
+    console.error('Error updating aspect:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+
+    const aspect = await prisma.aspect.findFirst({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (!aspect) {
+      return NextResponse.json(
+        { error: 'Aspect not found' },
+        { status: 404 }
+      )
+    }
+
+    // Stored aspect sentiments go with it
+    await prisma.aspect.delete({
+      where: { id: aspect.id }
+    })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error deleting aspect:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
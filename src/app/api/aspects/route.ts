@@ -0,0 +1,141 @@
+// src/app/api/aspects/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { MAX_ASPECTS_PER_USER, MAX_SYNONYMS_PER_ASPECT, normalizeTerms } from '@/lib/aspects'
+
+const prisma = new PrismaClient()
+
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const aspects = await prisma.aspect.findMany({
+      where: { userId: user.id },
+      include: {
+        _count: {
+          select: {
+            sentiments: {
+              where: { analysis: { isCurrent: true } }
+            }
+          }
+        }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    return NextResponse.json({ aspects })
+
+  } catch (error) {
+    console.error('Error fetching aspects:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const [name] = normalizeTerms([body.name ?? '']) || []
+    const synonyms = normalizeTerms(body.synonyms ?? [])
+
+    // Validate input
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Aspect name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!synonyms || synonyms.length > MAX_SYNONYMS_PER_ASPECT) {
+      return NextResponse.json(
+        { error: `Synonyms must be a list of at most ${MAX_SYNONYMS_PER_ASPECT} terms` },
+        { status: 400 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const [existing, aspectCount] = await Promise.all([
+      prisma.aspect.findUnique({
+        where: {
+          userId_name: { userId: user.id, name }
+        }
+      }),
+      prisma.aspect.count({
+        where: { userId: user.id }
+      })
+    ])
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'An aspect with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    if (aspectCount >= MAX_ASPECTS_PER_USER) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ASPECTS_PER_USER} aspects can be tracked` },
+        { status: 400 }
+      )
+    }
+
+    const aspect = await prisma.aspect.create({
+      data: {
+        userId: user.id,
+        name,
+        synonyms: synonyms.filter(synonym => synonym !== name)
+      }
+    })
+
+    return NextResponse.json({ aspect }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating aspect:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
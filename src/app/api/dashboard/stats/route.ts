@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
 import { PrismaClient } from '@prisma/client'
+import { getActivityFeed } from '@/lib/activity'
 
 const prisma = new PrismaClient()
 
@@ -36,40 +37,47 @@ export async function GET(request: NextRequest) {
     const pageIds = pages.map(p => p.id)
 
     // Get statistics
-    const [totalPages, totalPosts, totalComments, totalAnalyses] = await Promise.all([
+    const [totalPages, totalPosts, totalComments] = await Promise.all([
       prisma.page.count({ where: { ownerUserId: user.id } }),
       prisma.post.count({ where: { pageId: { in: pageIds } } }),
-      prisma.comment.count({ where: { post: { pageId: { in: pageIds } } } }),
-      prisma.analysis.count({ 
-        where: { 
-          comment: { 
-            post: { 
-              pageId: { in: pageIds } 
-            } 
-          } 
-        } 
-      })
+      prisma.comment.count({ where: { post: { pageId: { in: pageIds } } } })
     ])
 
-    // Get sentiment breakdown
-    const sentimentBreakdown = await prisma.analysis.groupBy({
-      by: ['sentimentLabel'],
-      where: {
-        comment: {
-          post: {
-            pageId: { in: pageIds }
-          }
-        }
-      },
-      _count: {
-        sentimentLabel: true
+    // Analysis totals come from the daily rollups rather than scanning every analysis
+    const rollupTotals = await prisma.sentimentDailyRollup.aggregate({
+      where: { pageId: { in: pageIds } },
+      _sum: {
+        commentCount: true,
+        positiveCount: true,
+        negativeCount: true,
+        neutralCount: true,
+        emotionCount: true,
+        angerCount: true,
+        disgustCount: true,
+        fearCount: true,
+        joyCount: true,
+        sadnessCount: true,
+        surpriseCount: true
       }
     })
 
+    const totalAnalyses = rollupTotals._sum.commentCount || 0
+
     const sentimentCounts = {
-      positive: sentimentBreakdown.find(s => s.sentimentLabel === 'POSITIVE')?._count.sentimentLabel || 0,
-      negative: sentimentBreakdown.find(s => s.sentimentLabel === 'NEGATIVE')?._count.sentimentLabel || 0,
-      neutral: sentimentBreakdown.find(s => s.sentimentLabel === 'NEUTRAL')?._count.sentimentLabel || 0
+      positive: rollupTotals._sum.positiveCount || 0,
+      negative: rollupTotals._sum.negativeCount || 0,
+      neutral: rollupTotals._sum.neutralCount || 0
+    }
+
+    // Comments by dominant emotion, out of those with emotion scores
+    const emotionBreakdown = {
+      analyzed: rollupTotals._sum.emotionCount || 0,
+      anger: rollupTotals._sum.angerCount || 0,
+      disgust: rollupTotals._sum.disgustCount || 0,
+      fear: rollupTotals._sum.fearCount || 0,
+      joy: rollupTotals._sum.joyCount || 0,
+      sadness: rollupTotals._sum.sadnessCount || 0,
+      surprise: rollupTotals._sum.surpriseCount || 0
     }
 
     // Get queue stats
@@ -77,30 +85,12 @@ export async function GET(request: NextRequest) {
       prisma.job.count({ where: { status: 'QUEUED' } }),
       prisma.job.count({ where: { status: 'RUNNING' } }),
       prisma.job.count({ where: { status: 'COMPLETED' } }),
-      prisma.job.count({ where: { status: 'FAILED' } })
+      prisma.job.count({ where: { status: 'FAILED' } }),
+      prisma.job.count({ where: { status: 'DEAD_LETTER' } })
     ])
 
-    // Get recent activity (mock for now)
-    const recentActivity = [
-      {
-        id: '1',
-        type: 'FETCH',
-        message: 'Fetched 25 new comments from Facebook page',
-        timestamp: new Date(Date.now() - 1000 * 60 * 30).toISOString()
-      },
-      {
-        id: '2',
-        type: 'ANALYSIS',
-        message: 'Completed sentiment analysis for 15 comments',
-        timestamp: new Date(Date.now() - 1000 * 60 * 60).toISOString()
-      },
-      {
-        id: '3',
-        type: 'EXPORT',
-        message: 'Exported 500 comments to CSV',
-        timestamp: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString()
-      }
-    ]
+    // Get recent activity
+    const { activities: recentActivity } = await getActivityFeed(user.id, { limit: 10 })
 
     return NextResponse.json({
       totalPages,
@@ -108,12 +98,14 @@ export async function GET(request: NextRequest) {
       totalComments,
       totalAnalyses,
       sentimentBreakdown: sentimentCounts,
+      emotionBreakdown,
       recentActivity,
       queueStats: {
         queued: queueStats[0],
         running: queueStats[1],
         completed: queueStats[2],
-        failed: queueStats[3]
+        failed: queueStats[3],
+        deadLetter: queueStats[4]
       }
     })
 
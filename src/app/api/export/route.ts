@@ -1,10 +1,63 @@
 // src/app/api/export/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
-import { PrismaClient, Sentiment } from '@prisma/client'
+import { PrismaClient, Prisma, Sentiment } from '@prisma/client'
+import { recordActivity } from '@/lib/activity'
+import { compareTone } from '@/lib/post-tone'
+import { EMOTIONS, dominantEmotion, parseEmotionScores } from '@/lib/emotions'
+import { effectiveLabel } from '@/lib/annotations'
 
 const prisma = new PrismaClient()
 
+const commentExportInclude = {
+  post: {
+    include: {
+      page: true
+    }
+  },
+  analysis: {
+    where: { isCurrent: true }
+  },
+  annotation: true
+} satisfies Prisma.CommentInclude
+
+const analysisExportInclude = {
+  comment: {
+    include: {
+      post: {
+        include: {
+          page: true
+        }
+      },
+      annotation: true
+    }
+  }
+} satisfies Prisma.AnalysisInclude
+
+type CommentExportRow = Prisma.CommentGetPayload<{ include: typeof commentExportInclude }>
+
+type AnalysisExportRow = Prisma.AnalysisGetPayload<{ include: typeof analysisExportInclude }>
+
+const postExportInclude = {
+  page: true,
+  analysis: {
+    orderBy: { analyzedAt: 'desc' },
+    take: 1
+  },
+  comments: {
+    include: {
+      analysis: {
+        where: { isCurrent: true }
+      },
+      annotation: true
+    }
+  }
+} satisfies Prisma.PostInclude
+
+type PostExportRow = Prisma.PostGetPayload<{ include: typeof postExportInclude }>
+
+type AggregatedExportRow = ReturnType<typeof aggregatePost>
+
 export async function GET(request: NextRequest) {
   try {
     // Check authentication
@@ -36,6 +89,7 @@ export async function GET(request: NextRequest) {
     const dateTo = searchParams.get('dateTo')
     const pageId = searchParams.get('pageId')
     const sentiment = searchParams.get('sentiment')
+    const needsReview = searchParams.get('needsReview') === 'true'
     const fields = searchParams.get('fields')?.split(',') || []
 
     // Build where clause
@@ -52,9 +106,11 @@ export async function GET(request: NextRequest) {
       }
       analysis?: {
         some: {
-          sentimentLabel: Sentiment
+          isCurrent: true
+          needsReview: true
         }
       }
+      OR?: Prisma.CommentWhereInput[]
     } = {
       post: {
         page: {
@@ -73,10 +129,22 @@ export async function GET(request: NextRequest) {
       whereClause.post.pageId = pageId
     }
 
+    // Filter on the analyst's label where there is one, otherwise the model's
     if (sentiment) {
+      whereClause.OR = [
+        { annotation: { is: { sentimentLabel: sentiment as Sentiment } } },
+        {
+          annotation: { is: null },
+          analysis: { some: { isCurrent: true, sentimentLabel: sentiment as Sentiment } }
+        }
+      ]
+    }
+
+    if (needsReview) {
       whereClause.analysis = {
         some: {
-          sentimentLabel: sentiment as Sentiment
+          isCurrent: true,
+          needsReview: true
         }
       }
     }
@@ -87,14 +155,7 @@ export async function GET(request: NextRequest) {
     if (dataType === 'comments') {
       data = await prisma.comment.findMany({
         where: whereClause,
-        include: {
-          post: {
-            include: {
-              page: true
-            }
-          },
-          analysis: true
-        },
+        include: commentExportInclude,
         orderBy: {
           createdTime: 'desc'
         },
@@ -103,19 +164,10 @@ export async function GET(request: NextRequest) {
     } else if (dataType === 'analysis') {
       data = await prisma.analysis.findMany({
         where: {
+          isCurrent: true,
           comment: whereClause
         },
-        include: {
-          comment: {
-            include: {
-              post: {
-                include: {
-                  page: true
-                }
-              }
-            }
-          }
-        },
+        include: analysisExportInclude,
         orderBy: {
           analyzedAt: 'desc'
         },
@@ -136,50 +188,23 @@ export async function GET(request: NextRequest) {
             }
           } : {})
         },
-        include: {
-          page: true,
-          comments: {
-            include: {
-              analysis: true
-            }
-          }
-        }
+        include: postExportInclude
       })
 
-      data = posts.map(post => {
-        const comments = post.comments
-        const analyses = comments.flatMap(c => c.analysis)
-        
-        const sentimentCounts = {
-          positive: analyses.filter(a => a.sentimentLabel === 'POSITIVE').length,
-          negative: analyses.filter(a => a.sentimentLabel === 'NEGATIVE').length,
-          neutral: analyses.filter(a => a.sentimentLabel === 'NEUTRAL').length
-        }
-
-        const avgSentimentScore = analyses.length > 0 
-          ? analyses.reduce((sum, a) => sum + a.sentimentScore, 0) / analyses.length 
-          : 0
-
-        const avgToxicityScore = analyses.length > 0
-          ? analyses.reduce((sum, a) => sum + a.toxicityScore, 0) / analyses.length
-          : 0
-
-        return {
-          postId: post.externalId,
-          pageName: post.page.name,
-          platform: post.platform,
-          postContent: post.message || post.caption || '',
-          createdTime: post.createdTime,
-          totalComments: comments.length,
-          totalLikes: post.likeCount,
-          ...sentimentCounts,
-          avgSentimentScore,
-          avgToxicityScore
-        }
-      })
+      data = posts.map(aggregatePost)
     }
 
     // Generate export based on format
+    if (format === 'csv' || format === 'json') {
+      await recordActivity(
+        user.id,
+        'DATA_EXPORT',
+        dataType.toUpperCase(),
+        `Exported ${data.length} ${dataType} records to ${format.toUpperCase()}`,
+        { format, dataType, recordCount: data.length }
+      )
+    }
+
     if (format === 'csv') {
       const csv = generateCSV(data, dataType, fields)
       
@@ -214,6 +239,49 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// One row per post: comment sentiment under effective labels, and the post's tone against it
+function aggregatePost(post: PostExportRow) {
+  const comments = post.comments
+  const analyses = comments.flatMap(c => c.analysis.map(a => effectiveLabel(a, c.annotation)))
+
+  const sentimentCounts = {
+    positive: analyses.filter(a => a.sentimentLabel === 'POSITIVE').length,
+    negative: analyses.filter(a => a.sentimentLabel === 'NEGATIVE').length,
+    neutral: analyses.filter(a => a.sentimentLabel === 'NEUTRAL').length
+  }
+
+  const avgSentimentScore = analyses.length > 0
+    ? analyses.reduce((sum, a) => sum + a.sentimentScore, 0) / analyses.length
+    : 0
+
+  const avgToxicityScore = analyses.length > 0
+    ? analyses.reduce((sum, a) => sum + a.toxicityScore, 0) / analyses.length
+    : 0
+
+  // Post tone vs. audience reaction
+  const postAnalysis = post.analysis[0]
+  const tone = compareTone(postAnalysis, analyses)
+
+  return {
+    postId: post.externalId,
+    pageName: post.page.name,
+    platform: post.platform,
+    postContent: post.message || post.caption || '',
+    createdTime: post.createdTime,
+    totalComments: comments.length,
+    totalLikes: post.likeCount,
+    ...sentimentCounts,
+    avgSentimentScore,
+    avgToxicityScore,
+    postSentiment: tone.postSentiment,
+    postSentimentScore: postAnalysis?.sentimentScore ?? null,
+    audienceSentiment: tone.audienceSentiment,
+    audiencePolarity: tone.audiencePolarity,
+    toneGap: tone.toneGap,
+    toneMismatch: tone.mismatch
+  }
+}
+
 function generateCSV(data: unknown[], dataType: string, fields: string[]): string {
   if (data.length === 0) {
     return 'No data available'
@@ -230,8 +298,14 @@ function generateCSV(data: unknown[], dataType: string, fields: string[]): strin
       authorUsername: 'Author Username',
       message: 'Comment Text',
       sentiment: 'Sentiment',
+      modelSentiment: 'Model Sentiment',
+      labelSource: 'Label Source',
+      reviewNote: 'Review Note',
       sentimentScore: 'Sentiment Score',
+      contextSentiment: 'Context Sentiment',
       toxicityScore: 'Toxicity Score',
+      dominantEmotion: 'Dominant Emotion',
+      ...Object.fromEntries(EMOTIONS.map(emotion => [emotion, emotionHeader(emotion)])),
       keywords: 'Keywords',
       platform: 'Platform',
       createdTime: 'Created Time',
@@ -240,40 +314,59 @@ function generateCSV(data: unknown[], dataType: string, fields: string[]): strin
       postContent: 'Post Content'
     }
 
-    // Use specified fields or all available
-    const selectedFields = fields.length > 0 ? fields : Object.keys(availableHeaders)
+    // Use specified fields or all available; "emotionScores" stands for one column per emotion
+    const selectedFields = (fields.length > 0 ? fields : Object.keys(availableHeaders))
+      .flatMap(field => field === 'emotionScores' ? [...EMOTIONS] : [field])
     headers = selectedFields.map(field => availableHeaders[field as keyof typeof availableHeaders] || field)
 
-    rows = data.map(comment => {
-      const analysis = (comment as any).analysis?.[0]
+    rows = (data as CommentExportRow[]).map(comment => {
+      const analysis = comment.analysis[0]
+      const annotation = comment.annotation
+      const label = analysis ? effectiveLabel(analysis, annotation) : null
+      const emotions = parseEmotionScores(analysis?.emotions)
       return selectedFields.map(field => {
+        if ((EMOTIONS as readonly string[]).includes(field)) {
+          return emotions?.[field as typeof EMOTIONS[number]].toFixed(3) || ''
+        }
+
+
         switch (field) {
           case 'commentId':
-            return (comment as any).externalId || ''
+            return comment.externalId
           case 'authorName':
-            return (comment as any).authorName || ''
+            return comment.authorName || ''
           case 'authorUsername':
-            return (comment as any).authorUsername || ''
+            return comment.authorUsername || ''
           case 'message':
-            return `"${((comment as any).message || '').replace(/"/g, '""')}"`
+            return `"${comment.message.replace(/"/g, '""')}"`
           case 'sentiment':
+            return annotation?.sentimentLabel || analysis?.sentimentLabel || ''
+          case 'modelSentiment':
             return analysis?.sentimentLabel || ''
+          case 'labelSource':
+            return annotation ? 'HUMAN' : analysis ? 'MODEL' : ''
+          case 'reviewNote':
+            return annotation?.note ? `"${annotation.note.replace(/"/g, '""')}"` : ''
           case 'sentimentScore':
-            return analysis?.sentimentScore?.toFixed(3) || ''
+            return label?.sentimentScore.toFixed(3) || ''
+          case 'contextSentiment':
+            return analysis?.contextSentimentLabel || ''
           case 'toxicityScore':
-            return analysis?.toxicityScore?.toFixed(3) || ''
+            return label?.toxicityScore.toFixed(3) || ''
+          case 'dominantEmotion':
+            return dominantEmotion(emotions) || ''
           case 'keywords':
-            return analysis?.keywords ? `"${analysis.keywords.join(', ')}"` : ''
+            return Array.isArray(analysis?.keywords) ? `"${analysis.keywords.join(', ')}"` : ''
           case 'platform':
-            return (comment as any).platform || ''
+            return comment.platform
           case 'createdTime':
-            return (comment as any).createdTime ? new Date((comment as any).createdTime).toISOString() : ''
+            return comment.createdTime.toISOString()
           case 'likeCount':
-            return (comment as any).likeCount?.toString() || '0'
+            return comment.likeCount.toString()
           case 'pageName':
-            return (comment as any).post?.page?.name || ''
+            return comment.post.page.name
           case 'postContent':
-            return `"${((comment as any).post?.message || (comment as any).post?.caption || '').replace(/"/g, '""')}"`
+            return `"${(comment.post.message || comment.post.caption || '').replace(/"/g, '""')}"`
           default:
             return ''
         }
@@ -283,28 +376,52 @@ function generateCSV(data: unknown[], dataType: string, fields: string[]): strin
     headers = [
       'Comment ID',
       'Sentiment',
+      'Model Sentiment',
+      'Label Source',
       'Sentiment Score',
+      'Model Sentiment Score',
+      'Context Sentiment',
       'Toxicity Score',
+      'Model Toxicity Score',
+      'Dominant Emotion',
+      ...EMOTIONS.map(emotionHeader),
       'Language',
       'Keywords',
       'Model Name',
+      'Version',
+      'Agreement',
+      'Needs Review',
       'Analyzed At',
       'Platform',
       'Page Name'
     ]
 
-    rows = data.map(analysis => [
-      (analysis as any).comment?.externalId || '',
-      (analysis as any).sentimentLabel || '',
-      (analysis as any).sentimentScore?.toFixed(3) || '',
-      (analysis as any).toxicityScore?.toFixed(3) || '',
-      (analysis as any).language || '',
-      (analysis as any).keywords ? `"${(analysis as any).keywords.join(', ')}"` : '',
-      (analysis as any).modelName || '',
-      (analysis as any).analyzedAt ? new Date((analysis as any).analyzedAt).toISOString() : '',
-      (analysis as any).comment?.platform || '',
-      (analysis as any).comment?.post?.page?.name || ''
-    ])
+    rows = (data as AnalysisExportRow[]).map(analysis => {
+      const emotions = parseEmotionScores(analysis.emotions)
+      const label = effectiveLabel(analysis, analysis.comment.annotation)
+      return [
+        analysis.comment.externalId,
+        label.sentimentLabel,
+        analysis.sentimentLabel,
+        label.labelSource,
+        label.sentimentScore.toFixed(3),
+        analysis.sentimentScore.toFixed(3),
+        analysis.contextSentimentLabel || '',
+        label.toxicityScore.toFixed(3),
+        analysis.toxicityScore.toFixed(3),
+        dominantEmotion(emotions) || '',
+        ...EMOTIONS.map(emotion => emotions?.[emotion].toFixed(3) || ''),
+        analysis.language || '',
+        Array.isArray(analysis.keywords) ? `"${analysis.keywords.join(', ')}"` : '',
+        analysis.modelName,
+        analysis.version.toString(),
+        analysis.agreementScore?.toFixed(3) || '',
+        analysis.needsReview ? 'Yes' : 'No',
+        analysis.analyzedAt.toISOString(),
+        analysis.comment.platform,
+        analysis.comment.post.page.name
+      ]
+    })
   } else if (dataType === 'aggregated') {
     headers = [
       'Post ID',
@@ -318,22 +435,34 @@ function generateCSV(data: unknown[], dataType: string, fields: string[]): strin
       'Negative Comments',
       'Neutral Comments',
       'Avg Sentiment Score',
-      'Avg Toxicity Score'
+      'Avg Toxicity Score',
+      'Post Sentiment',
+      'Post Sentiment Score',
+      'Audience Sentiment',
+      'Audience Polarity',
+      'Tone Gap',
+      'Tone Mismatch'
     ]
 
-    rows = data.map(post => [
-      (post as any).postId || '',
-      (post as any).pageName || '',
-      (post as any).platform || '',
-      `"${((post as any).postContent || '').replace(/"/g, '""')}"`,
-      (post as any).createdTime ? new Date((post as any).createdTime).toISOString() : '',
-      (post as any).totalComments?.toString() || '0',
-      (post as any).totalLikes?.toString() || '0',
-      (post as any).positive?.toString() || '0',
-      (post as any).negative?.toString() || '0',
-      (post as any).neutral?.toString() || '0',
-      (post as any).avgSentimentScore?.toFixed(3) || '0',
-      (post as any).avgToxicityScore?.toFixed(3) || '0'
+    rows = (data as AggregatedExportRow[]).map(post => [
+      post.postId,
+      post.pageName,
+      post.platform,
+      `"${post.postContent.replace(/"/g, '""')}"`,
+      post.createdTime.toISOString(),
+      post.totalComments.toString(),
+      post.totalLikes.toString(),
+      post.positive.toString(),
+      post.negative.toString(),
+      post.neutral.toString(),
+      post.avgSentimentScore.toFixed(3),
+      post.avgToxicityScore.toFixed(3),
+      post.postSentiment || '',
+      post.postSentimentScore?.toFixed(3) || '',
+      post.audienceSentiment || '',
+      post.audiencePolarity?.toFixed(3) || '',
+      post.toneGap?.toFixed(3) || '',
+      post.toneMismatch ? 'Yes' : 'No'
     ])
   }
 
@@ -346,3 +475,7 @@ function generateCSV(data: unknown[], dataType: string, fields: string[]): strin
   return csvContent
 }
 
+// e.g. "Anger Score"
+function emotionHeader(emotion: string): string {
+  return `${emotion.charAt(0).toUpperCase()}${emotion.slice(1)} Score`
+}
@@ -1,6 +1,7 @@
 // src/app/api/facebook-pages/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
+import { GRAPH_API_URL } from '@/lib/meta'
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,7 +16,7 @@ export async function GET(request: NextRequest) {
 
     // Fetch user's Facebook pages
     const response = await fetch(
-      `https://graph.facebook.com/v18.0/me/accounts?access_token=${session.accessToken}`,
+      `${GRAPH_API_URL}/me/accounts?access_token=${session.accessToken}`,
       {
         method: 'GET',
         headers: {
@@ -1,6 +1,7 @@
 // src/app/api/facebook-posts/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
+import { GRAPH_API_URL } from '@/lib/meta'
 
 export async function GET(request: NextRequest) {
   try {
@@ -26,7 +27,7 @@ export async function GET(request: NextRequest) {
 
     // Fetch posts from the Facebook page
     const postsResponse = await fetch(
-      `https://graph.facebook.com/v18.0/${pageId}/posts?fields=id,message,created_time,likes.summary(true),comments.summary(true)&access_token=${pageAccessToken}`,
+      `${GRAPH_API_URL}/${pageId}/posts?fields=id,message,created_time,likes.summary(true),comments.summary(true)&access_token=${pageAccessToken}`,
       {
         method: 'GET',
         headers: {
@@ -80,7 +81,7 @@ export async function POST(request: NextRequest) {
 
     // Fetch comments for a specific post
     const commentsResponse = await fetch(
-      `https://graph.facebook.com/v18.0/${postId}/comments?fields=id,message,created_time,from,like_count&access_token=${pageAccessToken}`,
+      `${GRAPH_API_URL}/${postId}/comments?fields=id,message,created_time,from,like_count&access_token=${pageAccessToken}`,
       {
         method: 'GET',
         headers: {
@@ -115,11 +115,14 @@ export async function GET(request: NextRequest) {
 
     // Get queue statistics
     const queue = JobQueue.getInstance()
-    const stats = await queue.getQueueStats()
+    const [stats, isProcessing] = await Promise.all([
+      queue.getQueueStats(),
+      queue.hasActiveWorkers()
+    ])
 
     return NextResponse.json({
       queueStats: stats,
-      isProcessing: true // You might want to track this state
+      isProcessing
     })
 
   } catch (error) {
@@ -0,0 +1,830 @@
+// src/app/api/insights/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient, Prisma, Sentiment } from '@prisma/client'
+import { polarityOf, startOfUtcDay } from '@/lib/rollup'
+import { buildCommentThreads } from '@/lib/threads'
+import { compareTone, ToneComparison } from '@/lib/post-tone'
+import { EMOTIONS, Emotion, emptyEmotionScores } from '@/lib/emotions'
+import { languageName } from '@/lib/language'
+import { tfIdfScore } from '@/lib/keywords'
+import { emojiPolarityOf } from '@/lib/emoji'
+import { EffectiveLabel, effectiveLabel, effectiveThreadSentiment } from '@/lib/annotations'
+
+const prisma = new PrismaClient()
+
+// Ranges longer than this are bucketed by week instead of by day
+const MAX_DAILY_BUCKET_DAYS = 31
+
+// Busiest conversations considered for thread-level sentiment
+const MAX_THREAD_ROOTS = 500
+const TOP_THREADS = 10
+
+// Posts listed where the audience reacted against the post's tone
+const TOP_TONE_MISMATCHES = 10
+
+const TOP_EMOJIS = 12
+
+const TIME_RANGE_DAYS: Record<string, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365
+}
+
+type Granularity = 'day' | 'week'
+
+interface SentimentCounts {
+  positive: number
+  negative: number
+  neutral: number
+}
+
+type EmotionCounts = Record<Emotion, number>
+
+interface Bucket extends SentimentCounts {
+  totalComments: number
+  totalLikes: number
+  polaritySum: number
+  toxicitySum: number
+  highToxicityCount: number
+  emotions: EmotionCounts
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams
+    const timeRange = searchParams.get('timeRange') || '30d'
+    const pageId = searchParams.get('pageId')
+
+    const range = resolveDateRange(
+      timeRange,
+      searchParams.get('dateFrom'),
+      searchParams.get('dateTo')
+    )
+
+    if (!range) {
+      return NextResponse.json(
+        { error: 'Invalid time range' },
+        { status: 400 }
+      )
+    }
+
+    const granularity: Granularity =
+      (range.until.getTime() - range.since.getTime()) / 86400000 > MAX_DAILY_BUCKET_DAYS
+        ? 'week'
+        : 'day'
+
+    // Per-page daily rollups cover everything except keywords
+    const rollups = await prisma.sentimentDailyRollup.findMany({
+      where: {
+        day: {
+          gte: startOfUtcDay(range.since),
+          lte: range.until
+        },
+        page: {
+          ownerUserId: user.id
+        },
+        ...(pageId && { pageId })
+      },
+      include: {
+        page: {
+          select: { name: true }
+        }
+      }
+    })
+
+    // Pre-fill buckets so charts show gaps as zero rather than skipping them
+    const buckets = new Map<string, Bucket>()
+    for (const key of enumerateBuckets(range.since, range.until, granularity)) {
+      buckets.set(key, emptyBucket())
+    }
+
+    const pages = new Map<string, SentimentCounts & { pageName: string, total: number }>()
+    const days = new Map<string, number>()
+
+    let totalComments = 0
+    let polaritySum = 0
+    let highToxicityTotal = 0
+    let emotionAnalyzed = 0
+    const emotionTotals = emptyEmotionScores()
+
+    for (const rollup of rollups) {
+      // Time buckets
+      const bucketKey = bucketKeyOf(rollup.day, granularity)
+      let bucket = buckets.get(bucketKey)
+      if (!bucket) {
+        bucket = emptyBucket()
+        buckets.set(bucketKey, bucket)
+      }
+      bucket.positive += rollup.positiveCount
+      bucket.negative += rollup.negativeCount
+      bucket.neutral += rollup.neutralCount
+      bucket.totalComments += rollup.commentCount
+      bucket.totalLikes += rollup.likeCount
+      bucket.polaritySum += rollup.polaritySum
+      bucket.toxicitySum += rollup.toxicityScoreSum
+      bucket.highToxicityCount += rollup.highToxicityCount
+
+      // Comments by dominant emotion
+      const rollupEmotions = emotionCountsOf(rollup)
+      for (const emotion of EMOTIONS) {
+        bucket.emotions[emotion] += rollupEmotions[emotion]
+        emotionTotals[emotion] += rollupEmotions[emotion]
+      }
+      emotionAnalyzed += rollup.emotionCount
+
+      // Per page
+      const pageStats = pages.get(rollup.pageId) || {
+        pageName: rollup.page.name,
+        positive: 0,
+        negative: 0,
+        neutral: 0,
+        total: 0
+      }
+      pageStats.positive += rollup.positiveCount
+      pageStats.negative += rollup.negativeCount
+      pageStats.neutral += rollup.neutralCount
+      pageStats.total += rollup.commentCount
+      pages.set(rollup.pageId, pageStats)
+
+      // Daily activity (always by day, independent of the chart granularity)
+      const dayKey = bucketKeyOf(rollup.day, 'day')
+      days.set(dayKey, (days.get(dayKey) || 0) + rollup.commentCount)
+
+      totalComments += rollup.commentCount
+      polaritySum += rollup.polaritySum
+      highToxicityTotal += rollup.highToxicityCount
+    }
+
+    // Keywords and emojis are not rolled up, so read just those columns for the range
+    const keywordAnalyses = await prisma.analysis.findMany({
+      where: {
+        isCurrent: true,
+        comment: {
+          createdTime: {
+            gte: range.since,
+            lte: range.until
+          },
+          post: {
+            page: {
+              ownerUserId: user.id
+            },
+            ...(pageId && { pageId })
+          }
+        }
+      },
+      select: {
+        sentimentLabel: true,
+        keywords: true,
+        emojis: true,
+        comment: {
+          select: {
+            postId: true,
+            annotation: {
+              select: { sentimentLabel: true }
+            }
+          }
+        }
+      }
+    })
+
+    // Each post's comments form one TF-IDF document, so terms that turn up under
+    // every post (brand names, greetings) rank below ones specific to a few posts
+    const keywords = new Map<string, SentimentCounts & { count: number, postIds: Set<string> }>()
+    const keywordPostIds = new Set<string>()
+
+    const emojis = new Map<string, { count: number, comments: number }>()
+
+    for (const analysis of keywordAnalyses) {
+      if (analysis.emojis && typeof analysis.emojis === 'object' && !Array.isArray(analysis.emojis)) {
+        for (const [emoji, count] of Object.entries(analysis.emojis)) {
+          if (typeof count !== 'number') continue
+          const emojiStats = emojis.get(emoji) || { count: 0, comments: 0 }
+          emojiStats.count += count
+          emojiStats.comments++
+          emojis.set(emoji, emojiStats)
+        }
+      }
+
+      if (!Array.isArray(analysis.keywords)) continue
+
+      const sentimentKey = sentimentKeyOf(analysis.comment.annotation?.sentimentLabel ?? analysis.sentimentLabel)
+      keywordPostIds.add(analysis.comment.postId)
+      for (const keyword of analysis.keywords) {
+        if (typeof keyword !== 'string') continue
+        const keywordStats = keywords.get(keyword) ||
+          { count: 0, positive: 0, negative: 0, neutral: 0, postIds: new Set<string>() }
+        keywordStats.count++
+        keywordStats[sentimentKey]++
+        keywordStats.postIds.add(analysis.comment.postId)
+        keywords.set(keyword, keywordStats)
+      }
+    }
+
+    const threads = await aggregateThreads(user.id, range, pageId)
+    const postTone = await aggregatePostTone(user.id, range, pageId)
+    const languages = await aggregateLanguages(user.id, range, pageId)
+
+    const orderedBuckets = Array.from(buckets.entries()).sort(([a], [b]) => a.localeCompare(b))
+
+    const aspects = await aggregateAspects(
+      user.id,
+      range,
+      pageId,
+      granularity,
+      orderedBuckets.map(([date]) => date)
+    )
+
+    const sentimentOverTime = orderedBuckets.map(([date, bucket]) => ({
+      date,
+      positive: bucket.positive,
+      negative: bucket.negative,
+      neutral: bucket.neutral
+    }))
+
+    const toxicityTrends = orderedBuckets.map(([date, bucket]) => ({
+      date,
+      averageToxicity: bucket.totalComments > 0 ? bucket.toxicitySum / bucket.totalComments : 0,
+      highToxicityCount: bucket.highToxicityCount
+    }))
+
+    const engagementMetrics = orderedBuckets.map(([date, bucket]) => ({
+      date,
+      totalComments: bucket.totalComments,
+      totalLikes: bucket.totalLikes,
+      averageSentiment: bucket.totalComments > 0 ? bucket.polaritySum / bucket.totalComments : 0
+    }))
+
+    const emotionsOverTime = orderedBuckets.map(([date, bucket]) => ({
+      date,
+      ...bucket.emotions
+    }))
+
+    const sentimentByPage = Array.from(pages.values())
+      .sort((a, b) => b.total - a.total)
+
+    const topKeywords = Array.from(keywords.entries())
+      .map(([keyword, stats]) => ({
+        keyword,
+        count: stats.count,
+        score: tfIdfScore(stats.count, stats.postIds.size, keywordPostIds.size),
+        sentiment: dominantSentiment(stats)
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 20)
+
+    const topEmojis = Array.from(emojis.entries())
+      .sort((a, b) => b[1].count - a[1].count)
+      .slice(0, TOP_EMOJIS)
+      .map(([emoji, stats]) => ({
+        emoji,
+        ...stats,
+        polarity: emojiPolarityOf(emoji)
+      }))
+
+    const mostActiveDay = Array.from(days.entries())
+      .sort((a, b) => b[1] - a[1])[0]?.[0] || 'N/A'
+
+    return NextResponse.json({
+      sentimentOverTime,
+      sentimentByPage,
+      topKeywords,
+      topEmojis,
+      toxicityTrends,
+      engagementMetrics,
+      emotionsOverTime,
+      emotionBreakdown: {
+        analyzed: emotionAnalyzed,
+        ...emotionTotals
+      },
+      threads,
+      postTone,
+      aspects,
+      languages,
+      summary: {
+        totalComments,
+        averageSentiment: totalComments > 0 ? polaritySum / totalComments : 0,
+        toxicityRate: totalComments > 0 ? highToxicityTotal / totalComments : 0,
+        mostActiveDay,
+        topPerformingPage: sentimentByPage[0]?.pageName || 'N/A'
+      },
+      range: {
+        since: range.since.toISOString(),
+        until: range.until.toISOString(),
+        granularity
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching insights:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Sentiment per conversation, for threads whose root comment falls in the range.
+// Each thread counts every reply beneath the root, using context-aware labels where present.
+async function aggregateThreads(
+  userId: string,
+  range: { since: Date, until: Date },
+  pageId: string | null
+) {
+  const roots = await prisma.comment.findMany({
+    where: {
+      parentExternalId: null,
+      replyCount: { gt: 0 },
+      createdTime: {
+        gte: range.since,
+        lte: range.until
+      },
+      post: {
+        page: {
+          ownerUserId: userId
+        },
+        ...(pageId && { pageId })
+      }
+    },
+    orderBy: { replyCount: 'desc' },
+    take: MAX_THREAD_ROOTS,
+    select: {
+      id: true,
+      postId: true,
+      post: {
+        select: {
+          page: {
+            select: { name: true }
+          }
+        }
+      }
+    }
+  })
+
+  const rootPosts = new Map(roots.map(root => [root.id, root]))
+
+  const comments = await prisma.comment.findMany({
+    where: {
+      postId: { in: Array.from(new Set(roots.map(root => root.postId))) },
+      OR: [
+        { id: { in: Array.from(rootPosts.keys()) } },
+        { parentExternalId: { not: null } }
+      ]
+    },
+    include: {
+      analysis: {
+        where: { isCurrent: true },
+        select: {
+          sentimentLabel: true,
+          sentimentScore: true,
+          contextSentimentLabel: true,
+          contextSentimentScore: true
+        },
+        take: 1
+      },
+      annotation: {
+        select: { sentimentLabel: true }
+      }
+    }
+  })
+
+  const threads = buildCommentThreads(comments.map(comment => ({
+    id: comment.id,
+    externalId: comment.externalId,
+    parentExternalId: comment.parentExternalId,
+    authorName: comment.authorName,
+    authorUsername: comment.authorUsername,
+    message: comment.message,
+    createdTime: comment.createdTime,
+    likeCount: comment.likeCount,
+    replyCount: comment.replyCount,
+    ...effectiveThreadSentiment(comment.analysis[0], comment.annotation)
+  }))).filter(thread => rootPosts.has(thread.id) && thread.replies.length > 0)
+
+  const totals: SentimentCounts = { positive: 0, negative: 0, neutral: 0 }
+  for (const thread of threads) {
+    if (thread.branch.analyzedCount > 0) {
+      totals[dominantSentiment(thread.branch)]++
+    }
+  }
+
+  const topThreads = threads
+    .sort((a, b) => b.branch.commentCount - a.branch.commentCount)
+    .slice(0, TOP_THREADS)
+    .map(thread => ({
+      commentId: thread.id,
+      postId: rootPosts.get(thread.id)!.postId,
+      pageName: rootPosts.get(thread.id)!.post.page.name,
+      authorName: thread.authorName || thread.authorUsername,
+      message: thread.message,
+      createdTime: thread.createdTime,
+      rootSentiment: thread.sentimentLabel ? sentimentKeyOf(thread.sentimentLabel) : null,
+      sentiment: dominantSentiment(thread.branch),
+      ...thread.branch
+    }))
+
+  return {
+    totalThreads: threads.length,
+    ...totals,
+    topThreads
+  }
+}
+
+// Post tone vs. audience reaction for analyzed posts published in the range
+async function aggregatePostTone(
+  userId: string,
+  range: { since: Date, until: Date },
+  pageId: string | null
+) {
+  const posts = await prisma.post.findMany({
+    where: {
+      createdTime: {
+        gte: range.since,
+        lte: range.until
+      },
+      page: {
+        ownerUserId: userId
+      },
+      ...(pageId && { pageId }),
+      analysis: { some: {} }
+    },
+    select: {
+      id: true,
+      message: true,
+      caption: true,
+      createdTime: true,
+      page: {
+        select: { name: true }
+      },
+      analysis: {
+        select: { sentimentLabel: true, sentimentScore: true },
+        orderBy: { analyzedAt: 'desc' },
+        take: 1
+      }
+    }
+  })
+
+  const commentAnalyses = await prisma.analysis.findMany({
+    where: {
+      isCurrent: true,
+      comment: {
+        postId: { in: posts.map(post => post.id) }
+      }
+    },
+    select: {
+      sentimentLabel: true,
+      sentimentScore: true,
+      toxicityScore: true,
+      comment: {
+        select: {
+          postId: true,
+          annotation: {
+            select: { sentimentLabel: true, isToxic: true }
+          }
+        }
+      }
+    }
+  })
+
+  const reactions = new Map<string, EffectiveLabel[]>()
+  for (const analysis of commentAnalyses) {
+    const postAnalyses = reactions.get(analysis.comment.postId) || []
+    postAnalyses.push(effectiveLabel(analysis, analysis.comment.annotation))
+    reactions.set(analysis.comment.postId, postAnalyses)
+  }
+
+  const byPostSentiment = new Map<keyof SentimentCounts, SentimentCounts & { posts: number, polaritySum: number }>()
+  const compared: Array<{ post: typeof posts[number], tone: ToneComparison }> = []
+
+  for (const post of posts) {
+    const tone = compareTone(post.analysis[0], reactions.get(post.id) || [])
+    if (!tone.postSentiment || !tone.audienceSentiment) continue
+
+    compared.push({ post, tone })
+
+    const postKey = sentimentKeyOf(tone.postSentiment)
+    const stats = byPostSentiment.get(postKey) || { posts: 0, positive: 0, negative: 0, neutral: 0, polaritySum: 0 }
+    stats.posts++
+    stats[sentimentKeyOf(tone.audienceSentiment)]++
+    stats.polaritySum += tone.audiencePolarity ?? 0
+    byPostSentiment.set(postKey, stats)
+  }
+
+  const mismatches = compared
+    .filter(({ tone }) => tone.mismatch)
+    .sort((a, b) => Math.abs(b.tone.toneGap ?? 0) - Math.abs(a.tone.toneGap ?? 0))
+
+  return {
+    analyzedPosts: compared.length,
+    mismatchedPosts: mismatches.length,
+    byPostSentiment: (['positive', 'neutral', 'negative'] as const).map(postSentiment => {
+      const stats = byPostSentiment.get(postSentiment)
+      return {
+        postSentiment,
+        posts: stats?.posts || 0,
+        audiencePositive: stats?.positive || 0,
+        audienceNegative: stats?.negative || 0,
+        audienceNeutral: stats?.neutral || 0,
+        averageAudiencePolarity: stats ? stats.polaritySum / stats.posts : 0
+      }
+    }),
+    mismatches: mismatches.slice(0, TOP_TONE_MISMATCHES).map(({ post, tone }) => ({
+      postId: post.id,
+      pageName: post.page.name,
+      content: post.message || post.caption || '',
+      createdTime: post.createdTime,
+      postSentiment: sentimentKeyOf(tone.postSentiment!),
+      audienceSentiment: sentimentKeyOf(tone.audienceSentiment!),
+      postPolarity: tone.postPolarity,
+      audiencePolarity: tone.audiencePolarity,
+      toneGap: tone.toneGap,
+      analyzedComments: tone.analyzedComments
+    }))
+  }
+}
+
+// Sentiment per tracked aspect, overall and per time bucket, for comments created in the range
+async function aggregateAspects(
+  userId: string,
+  range: { since: Date, until: Date },
+  pageId: string | null,
+  granularity: Granularity,
+  bucketKeys: string[]
+) {
+  const [aspects, aspectSentiments] = await Promise.all([
+    prisma.aspect.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' }
+    }),
+    prisma.aspectSentiment.findMany({
+      where: {
+        aspect: { userId },
+        analysis: {
+          isCurrent: true,
+          comment: {
+            createdTime: {
+              gte: range.since,
+              lte: range.until
+            },
+            post: {
+              page: {
+                ownerUserId: userId
+              },
+              ...(pageId && { pageId })
+            }
+          }
+        }
+      },
+      select: {
+        aspectId: true,
+        sentimentLabel: true,
+        sentimentScore: true,
+        analysis: {
+          select: {
+            comment: {
+              select: { createdTime: true }
+            }
+          }
+        }
+      }
+    })
+  ])
+
+  const totals = new Map<string, SentimentCounts & { mentions: number, polaritySum: number }>()
+  const perBucket = new Map<string, Map<string, { mentions: number, polaritySum: number }>>()
+
+  for (const aspectSentiment of aspectSentiments) {
+    const polarity = polarityOf(aspectSentiment.sentimentLabel, aspectSentiment.sentimentScore)
+
+    const total = totals.get(aspectSentiment.aspectId) || { mentions: 0, positive: 0, negative: 0, neutral: 0, polaritySum: 0 }
+    total.mentions++
+    total[sentimentKeyOf(aspectSentiment.sentimentLabel)]++
+    total.polaritySum += polarity
+    totals.set(aspectSentiment.aspectId, total)
+
+    const bucketKey = bucketKeyOf(aspectSentiment.analysis.comment.createdTime, granularity)
+    const bucket = perBucket.get(bucketKey) || new Map<string, { mentions: number, polaritySum: number }>()
+    const bucketStats = bucket.get(aspectSentiment.aspectId) || { mentions: 0, polaritySum: 0 }
+    bucketStats.mentions++
+    bucketStats.polaritySum += polarity
+    bucket.set(aspectSentiment.aspectId, bucketStats)
+    perBucket.set(bucketKey, bucket)
+  }
+
+  const summary = aspects.map(aspect => {
+    const total = totals.get(aspect.id) || { mentions: 0, positive: 0, negative: 0, neutral: 0, polaritySum: 0 }
+    return {
+      aspectId: aspect.id,
+      name: aspect.name,
+      isActive: aspect.isActive,
+      mentions: total.mentions,
+      positive: total.positive,
+      negative: total.negative,
+      neutral: total.neutral,
+      averagePolarity: total.mentions > 0 ? total.polaritySum / total.mentions : 0,
+      sentiment: dominantSentiment(total)
+    }
+  })
+
+  // One row per bucket with the average polarity of each aspect, null where it wasn't mentioned
+  const overTime = bucketKeys.map(date => {
+    const row: Record<string, string | number | null> = { date }
+    for (const aspect of aspects) {
+      const stats = perBucket.get(date)?.get(aspect.id)
+      row[aspect.id] = stats ? stats.polaritySum / stats.mentions : null
+    }
+    return row
+  })
+
+  return { summary, overTime }
+}
+
+// Sentiment per detected language for comments in the range; undetermined text is grouped as Unknown
+async function aggregateLanguages(
+  userId: string,
+  range: { since: Date, until: Date },
+  pageId: string | null
+) {
+  const commentWhere: Prisma.CommentWhereInput = {
+    createdTime: {
+      gte: range.since,
+      lte: range.until
+    },
+    post: {
+      page: {
+        ownerUserId: userId
+      },
+      ...(pageId && { pageId })
+    }
+  }
+
+  // Model labels are grouped in the database; the few annotated comments are counted
+  // one by one under the analyst's label
+  const [groups, annotated] = await Promise.all([
+    prisma.analysis.groupBy({
+      by: ['language', 'sentimentLabel'],
+      where: {
+        isCurrent: true,
+        comment: { ...commentWhere, annotation: { is: null } }
+      },
+      _count: { _all: true }
+    }),
+    prisma.analysis.findMany({
+      where: {
+        isCurrent: true,
+        comment: { ...commentWhere, annotation: { isNot: null } }
+      },
+      select: {
+        language: true,
+        comment: {
+          select: {
+            annotation: {
+              select: { sentimentLabel: true }
+            }
+          }
+        }
+      }
+    })
+  ])
+
+  const languages = new Map<string | null, SentimentCounts & { total: number }>()
+
+  const add = (language: string | null, label: Sentiment, count: number) => {
+    const stats = languages.get(language) || { positive: 0, negative: 0, neutral: 0, total: 0 }
+    stats[sentimentKeyOf(label)] += count
+    stats.total += count
+    languages.set(language, stats)
+  }
+
+  for (const group of groups) {
+    add(group.language, group.sentimentLabel, group._count._all)
+  }
+
+  for (const analysis of annotated) {
+    add(analysis.language, analysis.comment.annotation!.sentimentLabel, 1)
+  }
+
+  return Array.from(languages.entries())
+    .sort((a, b) => b[1].total - a[1].total)
+    .map(([language, stats]) => ({
+      language,
+      name: languageName(language),
+      ...stats
+    }))
+}
+
+function resolveDateRange(
+  timeRange: string,
+  dateFrom: string | null,
+  dateTo: string | null
+): { since: Date, until: Date } | null {
+  if (timeRange === 'custom') {
+    if (!dateFrom) return null
+
+    const since = new Date(dateFrom)
+    const until = dateTo ? new Date(dateTo) : new Date()
+
+    if (isNaN(since.getTime()) || isNaN(until.getTime()) || since > until) {
+      return null
+    }
+
+    return { since, until }
+  }
+
+  const days = TIME_RANGE_DAYS[timeRange]
+  if (!days) return null
+
+  const until = new Date()
+  const since = new Date(until.getTime() - days * 86400000)
+  return { since, until }
+}
+
+// Buckets are keyed by the UTC date they start on; weeks start on Monday
+function bucketKeyOf(date: Date, granularity: Granularity): string {
+  const start = startOfUtcDay(date)
+
+  if (granularity === 'week') {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday)
+  }
+
+  return start.toISOString().split('T')[0]
+}
+
+function enumerateBuckets(since: Date, until: Date, granularity: Granularity): string[] {
+  const keys: string[] = []
+  const step = granularity === 'week' ? 7 : 1
+  const cursor = new Date(bucketKeyOf(since, granularity))
+
+  while (cursor <= until) {
+    keys.push(cursor.toISOString().split('T')[0])
+    cursor.setUTCDate(cursor.getUTCDate() + step)
+  }
+
+  return keys
+}
+
+function emptyBucket(): Bucket {
+  return {
+    positive: 0,
+    negative: 0,
+    neutral: 0,
+    totalComments: 0,
+    totalLikes: 0,
+    polaritySum: 0,
+    toxicitySum: 0,
+    highToxicityCount: 0,
+    emotions: emptyEmotionScores()
+  }
+}
+
+function emotionCountsOf(rollup: Record<`${Emotion}Count`, number>): EmotionCounts {
+  return {
+    anger: rollup.angerCount,
+    disgust: rollup.disgustCount,
+    fear: rollup.fearCount,
+    joy: rollup.joyCount,
+    sadness: rollup.sadnessCount,
+    surprise: rollup.surpriseCount
+  }
+}
+
+function sentimentKeyOf(label: Sentiment): keyof SentimentCounts {
+  switch (label) {
+    case Sentiment.POSITIVE:
+      return 'positive'
+    case Sentiment.NEGATIVE:
+      return 'negative'
+    default:
+      return 'neutral'
+  }
+}
+
+function dominantSentiment(counts: SentimentCounts): keyof SentimentCounts {
+  if (counts.positive > counts.negative && counts.positive > counts.neutral) return 'positive'
+  if (counts.negative > counts.positive && counts.negative > counts.neutral) return 'negative'
+  return 'neutral'
+}
@@ -0,0 +1,72 @@
+// src/app/api/jobs/[id]/cancel/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { JobQueue } from '@/lib/queue'
+
+const prisma = new PrismaClient()
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+
+    const job = await prisma.job.findFirst({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    const queue = JobQueue.getInstance()
+    const updated = await queue.cancelJob(job.id)
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Only queued, running or failed jobs can be cancelled' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      job: await prisma.job.findUnique({ where: { id: job.id } })
+    })
+
+  } catch (error) {
+    console.error('Error cancelling job:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
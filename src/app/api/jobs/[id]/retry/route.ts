@@ -0,0 +1,75 @@
+// src/app/api/jobs/[id]/retry/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { JobQueue } from '@/lib/queue'
+
+const prisma = new PrismaClient()
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+
+    const job = await prisma.job.findFirst({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    const queue = JobQueue.getInstance()
+    const updated = await queue.retryJob(job.id)
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Only failed, dead-lettered or cancelled jobs can be retried' },
+        { status: 409 }
+      )
+    }
+
+    // Start processing if not already running
+    queue.startProcessing()
+
+    return NextResponse.json({
+      job: await prisma.job.findUnique({ where: { id: job.id } })
+    })
+
+  } catch (error) {
+    console.error('Error retrying job:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+// src/app/api/jobs/bulk/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { JobQueue } from '@/lib/queue'
+
+const prisma = new PrismaClient()
+
+const BULK_ACTIONS = ['retry', 'cancel', 'requeue'] as const
+
+type BulkAction = typeof BULK_ACTIONS[number]
+
+const MAX_BULK_JOBS = 500
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { action, jobIds } = body
+
+    // Validate input
+    if (!BULK_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${BULK_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(jobIds) || jobIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Job IDs are required' },
+        { status: 400 }
+      )
+    }
+
+    if (jobIds.length > MAX_BULK_JOBS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_JOBS} jobs can be updated at once` },
+        { status: 400 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Jobs belonging to other users are silently skipped
+    const jobs = await prisma.job.findMany({
+      where: {
+        id: { in: jobIds },
+        userId: user.id
+      },
+      select: { id: true }
+    })
+
+    const queue = JobQueue.getInstance()
+    const updated: string[] = []
+    const enqueued: string[] = []
+
+    for (const job of jobs) {
+      switch (action as BulkAction) {
+        case 'retry':
+          if (await queue.retryJob(job.id)) updated.push(job.id)
+          break
+        case 'cancel':
+          if (await queue.cancelJob(job.id)) updated.push(job.id)
+          break
+        case 'requeue': {
+          const newJobId = await queue.requeueJob(job.id)
+          if (newJobId) {
+            updated.push(job.id)
+            enqueued.push(newJobId)
+          }
+          break
+        }
+      }
+    }
+
+    if (action !== 'cancel' && updated.length > 0) {
+      // Start processing if not already running
+      queue.startProcessing()
+    }
+
+    return NextResponse.json({
+      action,
+      updated,
+      skipped: jobIds.filter((id: string) => !updated.includes(id)),
+      enqueued
+    })
+
+  } catch (error) {
+    console.error('Error updating jobs in bulk:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+// src/app/api/jobs/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient, JobStatus, JobType, Prisma } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+const MAX_PAGE_SIZE = 100
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status')
+    const type = searchParams.get('type')
+    const pageId = searchParams.get('pageId')
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '50', 10) || 50))
+
+    if (status && !Object.values(JobStatus).includes(status as JobStatus)) {
+      return NextResponse.json(
+        { error: `Invalid job status: ${status}` },
+        { status: 400 }
+      )
+    }
+
+    if (type && !Object.values(JobType).includes(type as JobType)) {
+      return NextResponse.json(
+        { error: `Invalid job type: ${type}` },
+        { status: 400 }
+      )
+    }
+
+    const where: Prisma.JobWhereInput = {
+      userId: user.id,
+      ...(status && { status: status as JobStatus }),
+      ...(type && { type: type as JobType }),
+      ...(pageId && { pageId })
+    }
+
+    const [jobs, total] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        // Stacks can be long; they are only returned by GET /api/jobs/[id]
+        omit: { lastErrorStack: true },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.job.count({ where })
+    ])
+
+    // Jobs only store the page ID, so resolve names for display
+    const pageIds = Array.from(new Set(jobs.map(job => job.pageId).filter((id): id is string => !!id)))
+    const pages = await prisma.page.findMany({
+      where: {
+        id: { in: pageIds },
+        ownerUserId: user.id
+      },
+      select: { id: true, name: true }
+    })
+    const pageNames = new Map(pages.map(page => [page.id, page.name]))
+
+    return NextResponse.json({
+      jobs: jobs.map(job => ({
+        ...job,
+        pageName: job.pageId ? pageNames.get(job.pageId) || null : null
+      })),
+      pagination: {
+        page,
+        limit,
+        total
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching jobs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
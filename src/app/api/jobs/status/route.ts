@@ -0,0 +1,50 @@
+// src/app/api/jobs/status/route.ts
+import { NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { JobQueue } from '@/lib/queue'
+
+const prisma = new PrismaClient()
+
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const queue = JobQueue.getInstance()
+    const [queueStats, isProcessing] = await Promise.all([
+      queue.getQueueStats(user.id),
+      queue.hasActiveWorkers()
+    ])
+
+    return NextResponse.json({
+      queueStats,
+      isProcessing
+    })
+
+  } catch (error) {
+    console.error('Error getting job status:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+// src/app/api/pages/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient, Prisma } from '@prisma/client'
+import { AnalysisEngine } from '@/lib/analysis'
+
+const prisma = new PrismaClient()
+
+// Update a page's status or analyzer. A null analyzerId falls back to the owner's default.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+
+    const page = await prisma.page.findFirst({
+      where: {
+        id,
+        ownerUserId: user.id
+      }
+    })
+
+    if (!page) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { isActive, analyzerId } = body
+
+    const data: Prisma.PageUpdateInput = {}
+
+    if (isActive !== undefined) {
+      data.isActive = Boolean(isActive)
+    }
+
+    if (analyzerId !== undefined) {
+      if (analyzerId !== null && (typeof analyzerId !== 'string' || !AnalysisEngine.getInstance().hasAnalyzer(analyzerId))) {
+        return NextResponse.json(
+          { error: 'Unknown analyzer' },
+          { status: 400 }
+        )
+      }
+
+      data.analyzerId = analyzerId
+    }
+
+    const updated = await prisma.page.update({
+      where: { id: page.id },
+      data,
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        analyzerId: true
+      }
+    })
+
+    return NextResponse.json({ page: updated })
+
+  } catch (error) {
+    console.error('Error updating page:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,111 @@
+// src/app/api/posts/[id]/threads/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { buildCommentThreads } from '@/lib/threads'
+import { effectiveThreadSentiment } from '@/lib/annotations'
+
+const prisma = new PrismaClient()
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+
+    const post = await prisma.post.findFirst({
+      where: {
+        id,
+        page: {
+          ownerUserId: user.id
+        }
+      },
+      include: {
+        page: {
+          select: { name: true }
+        }
+      }
+    })
+
+    if (!post) {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      )
+    }
+
+    const comments = await prisma.comment.findMany({
+      where: { postId: post.id },
+      include: {
+        analysis: {
+          where: { isCurrent: true },
+          select: {
+            sentimentLabel: true,
+            sentimentScore: true,
+            contextSentimentLabel: true,
+            contextSentimentScore: true
+          },
+          take: 1
+        },
+        annotation: {
+          select: { sentimentLabel: true }
+        }
+      }
+    })
+
+    const threads = buildCommentThreads(comments.map(comment => ({
+      id: comment.id,
+      externalId: comment.externalId,
+      parentExternalId: comment.parentExternalId,
+      authorName: comment.authorName,
+      authorUsername: comment.authorUsername,
+      message: comment.message,
+      createdTime: comment.createdTime,
+      likeCount: comment.likeCount,
+      replyCount: comment.replyCount,
+      ...effectiveThreadSentiment(comment.analysis[0], comment.annotation)
+    })))
+
+    return NextResponse.json({
+      post: {
+        id: post.id,
+        platform: post.platform,
+        pageName: post.page.name,
+        content: post.message || post.caption,
+        createdTime: post.createdTime,
+        permalinkUrl: post.permalinkUrl,
+        commentCount: comments.length
+      },
+      threads
+    })
+
+  } catch (error) {
+    console.error('Error fetching comment threads:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+// src/app/api/posts/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+const MAX_PAGE_SIZE = 100
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams
+    const pageId = searchParams.get('pageId')
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '25', 10) || 25))
+
+    const posts = await prisma.post.findMany({
+      where: {
+        page: {
+          ownerUserId: user.id
+        },
+        ...(pageId && { pageId })
+      },
+      select: {
+        id: true,
+        pageId: true,
+        platform: true,
+        message: true,
+        caption: true,
+        createdTime: true,
+        permalinkUrl: true,
+        likeCount: true,
+        commentCount: true,
+        page: {
+          select: { name: true }
+        },
+        _count: {
+          select: { comments: true }
+        }
+      },
+      orderBy: { createdTime: 'desc' },
+      take: limit
+    })
+
+    return NextResponse.json({ posts })
+
+  } catch (error) {
+    console.error('Error fetching posts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/reanalysis/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { compareCampaign } from '@/lib/reanalysis'
+
+const prisma = new PrismaClient()
+
+// A campaign with how its labels shifted from the versions it replaced
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+
+    const campaign = await prisma.reanalysisCampaign.findFirst({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      campaign,
+      comparison: await compareCampaign(campaign.id)
+    })
+
+  } catch (error) {
+    console.error('Error fetching reanalysis campaign:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,159 @@
+// src/app/api/reanalysis/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { AnalysisEngine } from '@/lib/analysis'
+import { JobQueue } from '@/lib/queue'
+import { countReanalysisTargets, createReanalysisCampaign, currentModels } from '@/lib/reanalysis'
+
+const prisma = new PrismaClient()
+
+const MAX_CAMPAIGNS = 50
+
+// The user's campaigns, newest first, and the models behind their current analyses
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const [campaigns, models] = await Promise.all([
+      prisma.reanalysisCampaign.findMany({
+        where: { userId: user.id },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_CAMPAIGNS
+      }),
+      currentModels(user.id)
+    ])
+
+    return NextResponse.json({ campaigns, models })
+
+  } catch (error) {
+    console.error('Error fetching reanalysis campaigns:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Start a campaign: every analyzed comment matching the filters gets a new analysis version
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { pageId, since, until, fromModelName, analyzerId } = body
+
+    const sinceDate = since ? new Date(since) : null
+    const untilDate = until ? new Date(until) : null
+
+    if ((sinceDate && isNaN(sinceDate.getTime())) || (untilDate && isNaN(untilDate.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid date range' },
+        { status: 400 }
+      )
+    }
+
+    if (sinceDate && untilDate && sinceDate > untilDate) {
+      return NextResponse.json(
+        { error: 'since must be before until' },
+        { status: 400 }
+      )
+    }
+
+    if (analyzerId && (typeof analyzerId !== 'string' || !AnalysisEngine.getInstance().hasAnalyzer(analyzerId))) {
+      return NextResponse.json(
+        { error: 'Unknown analyzer' },
+        { status: 400 }
+      )
+    }
+
+    if (pageId) {
+      const page = await prisma.page.findFirst({
+        where: {
+          id: pageId,
+          ownerUserId: user.id
+        }
+      })
+
+      if (!page) {
+        return NextResponse.json(
+          { error: 'Page not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const filters = {
+      pageId: pageId || null,
+      since: sinceDate,
+      until: untilDate,
+      fromModelName: typeof fromModelName === 'string' && fromModelName ? fromModelName : null,
+      analyzerId: analyzerId || null
+    }
+
+    if (await countReanalysisTargets(user.id, filters) === 0) {
+      return NextResponse.json(
+        { error: 'No analyzed comments match these filters' },
+        { status: 400 }
+      )
+    }
+
+    const { campaignId, commentCount, jobIds } = await createReanalysisCampaign(user.id, filters)
+
+    // Start processing if not already running
+    JobQueue.getInstance().startProcessing()
+
+    return NextResponse.json({
+      message: 'Reanalysis jobs enqueued successfully',
+      campaignId,
+      commentCount,
+      jobIds,
+      totalJobs: jobIds.length
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating reanalysis campaign:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+// src/app/api/review/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient } from '@prisma/client'
+import { getReviewQueue } from '@/lib/annotations'
+
+const prisma = new PrismaClient()
+
+const MAX_PAGE_SIZE = 100
+
+// Unannotated analyses the models were unsure or divided about
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const pageId = searchParams.get('pageId')
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20))
+
+    const { items, total } = await getReviewQueue(user.id, {
+      pageId,
+      skip: (page - 1) * limit,
+      take: limit
+    })
+
+    return NextResponse.json({
+      items,
+      pagination: {
+        page,
+        limit,
+        total
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching review queue:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
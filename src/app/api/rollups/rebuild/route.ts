@@ -0,0 +1,78 @@
+// src/app/api/rollups/rebuild/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient, JobType } from '@prisma/client'
+import { JobQueue } from '@/lib/queue'
+
+const prisma = new PrismaClient()
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { pageId } = body
+
+    // Rebuild either one page or every page the user owns
+    const pages = await prisma.page.findMany({
+      where: {
+        ownerUserId: user.id,
+        ...(pageId && { id: pageId })
+      }
+    })
+
+    if (pageId && pages.length === 0) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    const queue = JobQueue.getInstance()
+    const jobIds: string[] = []
+
+    for (const page of pages) {
+      const jobId = await queue.enqueue(JobType.REBUILD_ROLLUPS, {
+        pageId: page.id,
+        userId: user.id
+      })
+
+      jobIds.push(jobId)
+    }
+
+    // Start processing if not already running
+    queue.startProcessing()
+
+    return NextResponse.json({
+      message: 'Rollup rebuild jobs enqueued successfully',
+      jobIds,
+      totalJobs: jobIds.length
+    })
+
+  } catch (error) {
+    console.error('Error enqueueing rollup rebuild jobs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,158 @@
+// src/app/api/schedules/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient, Prisma } from '@prisma/client'
+import {
+  MIN_SCHEDULE_INTERVAL_MINUTES,
+  MAX_SCHEDULE_INTERVAL_MINUTES,
+  nextRunAfter
+} from '@/lib/scheduler'
+
+const prisma = new PrismaClient()
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+
+    const schedule = await prisma.syncSchedule.findFirst({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { intervalMinutes, isActive } = body
+
+    const data: Prisma.SyncScheduleUpdateInput = {}
+
+    if (intervalMinutes !== undefined) {
+      if (
+        !Number.isInteger(intervalMinutes) ||
+        intervalMinutes < MIN_SCHEDULE_INTERVAL_MINUTES ||
+        intervalMinutes > MAX_SCHEDULE_INTERVAL_MINUTES
+      ) {
+        return NextResponse.json(
+          { error: `Interval must be between ${MIN_SCHEDULE_INTERVAL_MINUTES} and ${MAX_SCHEDULE_INTERVAL_MINUTES} minutes` },
+          { status: 400 }
+        )
+      }
+
+      data.intervalMinutes = intervalMinutes
+      data.nextRunAt = schedule.lastRunAt
+        ? nextRunAfter(schedule.lastRunAt, intervalMinutes)
+        : new Date()
+    }
+
+    if (isActive !== undefined) {
+      data.isActive = Boolean(isActive)
+
+      // Resuming a paused schedule runs it on the next check
+      if (isActive && !schedule.isActive) {
+        data.nextRunAt = new Date()
+      }
+    }
+
+    const updated = await prisma.syncSchedule.update({
+      where: { id: schedule.id },
+      data
+    })
+
+    return NextResponse.json({ schedule: updated })
+
+  } catch (error) {
+    console.error('Error updating schedule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+
+    const schedule = await prisma.syncSchedule.findFirst({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.syncSchedule.delete({
+      where: { id: schedule.id }
+    })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error deleting schedule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
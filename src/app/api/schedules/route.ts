@@ -0,0 +1,170 @@
+// src/app/api/schedules/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { PrismaClient, JobType } from '@prisma/client'
+import {
+  SCHEDULABLE_JOB_TYPES,
+  MIN_SCHEDULE_INTERVAL_MINUTES,
+  MAX_SCHEDULE_INTERVAL_MINUTES,
+  nextRunAfter
+} from '@/lib/scheduler'
+
+const prisma = new PrismaClient()
+
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const schedules = await prisma.syncSchedule.findMany({
+      where: { userId: user.id },
+      include: {
+        page: {
+          select: { name: true, platform: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return NextResponse.json({ schedules })
+
+  } catch (error) {
+    console.error('Error fetching schedules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a schedule, or update the existing one for the same page and job type
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { jobType, pageId, intervalMinutes, isActive = true } = body
+
+    // Validate input
+    if (!SCHEDULABLE_JOB_TYPES.includes(jobType)) {
+      return NextResponse.json(
+        { error: `Job type must be one of: ${SCHEDULABLE_JOB_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (
+      !Number.isInteger(intervalMinutes) ||
+      intervalMinutes < MIN_SCHEDULE_INTERVAL_MINUTES ||
+      intervalMinutes > MAX_SCHEDULE_INTERVAL_MINUTES
+    ) {
+      return NextResponse.json(
+        { error: `Interval must be between ${MIN_SCHEDULE_INTERVAL_MINUTES} and ${MAX_SCHEDULE_INTERVAL_MINUTES} minutes` },
+        { status: 400 }
+      )
+    }
+
+    if (jobType === JobType.FETCH_POSTS && !pageId) {
+      return NextResponse.json(
+        { error: 'Page ID is required for fetch schedules' },
+        { status: 400 }
+      )
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Maintenance jobs run across all of the user's pages
+    const schedulePageId: string | null = jobType === JobType.FETCH_POSTS ? pageId : null
+
+    if (schedulePageId) {
+      const page = await prisma.page.findFirst({
+        where: {
+          id: schedulePageId,
+          ownerUserId: user.id
+        }
+      })
+
+      if (!page) {
+        return NextResponse.json(
+          { error: 'Page not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const existing = await prisma.syncSchedule.findFirst({
+      where: {
+        userId: user.id,
+        pageId: schedulePageId,
+        jobType
+      }
+    })
+
+    const schedule = existing
+      ? await prisma.syncSchedule.update({
+          where: { id: existing.id },
+          data: {
+            intervalMinutes,
+            isActive: Boolean(isActive),
+            // Re-anchor on the last run so a shorter interval takes effect immediately
+            nextRunAt: existing.lastRunAt
+              ? nextRunAfter(existing.lastRunAt, intervalMinutes)
+              : new Date()
+          }
+        })
+      : await prisma.syncSchedule.create({
+          data: {
+            userId: user.id,
+            pageId: schedulePageId,
+            jobType,
+            intervalMinutes,
+            isActive: Boolean(isActive),
+            nextRunAt: new Date()
+          }
+        })
+
+    return NextResponse.json({ schedule }, { status: existing ? 200 : 201 })
+
+  } catch (error) {
+    console.error('Error saving schedule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,222 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { Pause, Play, Plus, Trash2 } from 'lucide-react'
+
+export interface AspectInsightsData {
+  summary: Array<{
+    aspectId: string
+    name: string
+    isActive: boolean
+    mentions: number
+    positive: number
+    negative: number
+    neutral: number
+    averagePolarity: number
+    sentiment: 'positive' | 'negative' | 'neutral'
+  }>
+  overTime: Array<Record<string, string | number | null>>
+}
+
+interface AspectInsightsProps {
+  data: AspectInsightsData | undefined
+  onAspectsChanged: () => void
+}
+
+const LINE_COLORS = ['#3b82f6', '#f59e0b', '#8b5cf6', '#10b981', '#ef4444', '#06b6d4', '#ec4899', '#84cc16']
+
+export default function AspectInsights({ data, onAspectsChanged }: AspectInsightsProps) {
+  const [name, setName] = useState('')
+  const [synonyms, setSynonyms] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const aspects = data?.summary || []
+
+  const createAspect = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/aspects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          synonyms: synonyms.split(',').map(term => term.trim()).filter(Boolean)
+        })
+      })
+
+      if (response.ok) {
+        setName('')
+        setSynonyms('')
+        onAspectsChanged()
+      } else {
+        const body = await response.json()
+        setError(body.error || 'Failed to create aspect')
+      }
+    } catch (error) {
+      console.error('Error creating aspect:', error)
+      setError('Failed to create aspect')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleAspect = async (aspectId: string, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/aspects/${aspectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive })
+      })
+      if (response.ok) onAspectsChanged()
+    } catch (error) {
+      console.error('Error updating aspect:', error)
+    }
+  }
+
+  const deleteAspect = async (aspectId: string) => {
+    if (!confirm('Delete this aspect and its stored mentions?')) return
+
+    try {
+      const response = await fetch(`/api/aspects/${aspectId}`, { method: 'DELETE' })
+      if (response.ok) onAspectsChanged()
+    } catch (error) {
+      console.error('Error deleting aspect:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Tracked Aspects</CardTitle>
+            <CardDescription>
+              Topics scored separately within each comment; new comments are checked for mentions as they are analyzed
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-2 md:grid-cols-[1fr_2fr_auto] md:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="aspect-name">Aspect</Label>
+                <Input
+                  id="aspect-name"
+                  placeholder="delivery"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="aspect-synonyms">Synonyms</Label>
+                <Input
+                  id="aspect-synonyms"
+                  placeholder="shipping, courier, arrived"
+                  value={synonyms}
+                  onChange={(event) => setSynonyms(event.target.value)}
+                />
+              </div>
+              <Button onClick={createAspect} disabled={saving || !name.trim()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="space-y-3">
+              {aspects.map((aspect) => (
+                <div key={aspect.aspectId} className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{aspect.name}</span>
+                    {!aspect.isActive && <Badge variant="outline">Paused</Badge>}
+                    <span className="text-sm text-muted-foreground">{aspect.mentions} mentions</span>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleAspect(aspect.aspectId, !aspect.isActive)}
+                    >
+                      {aspect.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => deleteAspect(aspect.aspectId)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {aspects.length === 0 && (
+                <p className="text-sm text-muted-foreground">No aspects yet. Add one such as price, delivery or a product name.</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sentiment per Aspect</CardTitle>
+            <CardDescription>
+              Share of positive, neutral and negative mentions
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {aspects.filter(aspect => aspect.mentions > 0).map((aspect) => (
+                <div key={aspect.aspectId} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{aspect.name}</span>
+                    <span className="text-muted-foreground">
+                      avg {aspect.averagePolarity >= 0 ? '+' : ''}{aspect.averagePolarity.toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="flex h-2 overflow-hidden rounded-full bg-gray-200">
+                    <div className="bg-green-500" style={{ width: `${(aspect.positive / aspect.mentions) * 100}%` }} />
+                    <div className="bg-gray-400" style={{ width: `${(aspect.neutral / aspect.mentions) * 100}%` }} />
+                    <div className="bg-red-500" style={{ width: `${(aspect.negative / aspect.mentions) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Aspect Sentiment Over Time</CardTitle>
+          <CardDescription>
+            Average polarity of mentions, from -1 (negative) to +1 (positive)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={350}>
+            <LineChart data={data?.overTime || []}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis domain={[-1, 1]} />
+              <Tooltip />
+              <Legend />
+              {aspects.map((aspect, index) => (
+                <Line
+                  key={aspect.aspectId}
+                  type="monotone"
+                  dataKey={aspect.aspectId}
+                  name={aspect.name}
+                  stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                  strokeWidth={2}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,257 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ChevronDown, ChevronRight, Heart, Loader2, MessageSquare } from 'lucide-react'
+
+interface BranchSentiment {
+  commentCount: number
+  analyzedCount: number
+  positive: number
+  negative: number
+  neutral: number
+  averagePolarity: number
+}
+
+interface ThreadNode {
+  id: string
+  authorName: string | null
+  authorUsername: string | null
+  message: string
+  createdTime: string
+  likeCount: number
+  replyCount: number
+  sentimentLabel: 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL' | null
+  sentimentScore: number | null
+  contextSentimentLabel: 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL' | null
+  contextSentimentScore: number | null
+  replies: ThreadNode[]
+  branch: BranchSentiment
+}
+
+interface PostSummary {
+  id: string
+  platform: 'FACEBOOK' | 'INSTAGRAM'
+  message: string | null
+  caption: string | null
+  createdTime: string
+  page: { name: string }
+  _count: { comments: number }
+}
+
+const getSentimentColor = (label: ThreadNode['sentimentLabel']) => {
+  switch (label) {
+    case 'POSITIVE':
+      return 'bg-green-100 text-green-800'
+    case 'NEGATIVE':
+      return 'bg-red-100 text-red-800'
+    case 'NEUTRAL':
+      return 'bg-gray-100 text-gray-800'
+    default:
+      return 'bg-yellow-50 text-yellow-800'
+  }
+}
+
+function BranchBar({ branch }: { branch: BranchSentiment }) {
+  if (branch.analyzedCount === 0) return null
+
+  const percent = (count: number) => `${(count / branch.analyzedCount) * 100}%`
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <div className="flex h-2 w-32 overflow-hidden rounded-full bg-gray-200">
+        <div className="bg-green-500" style={{ width: percent(branch.positive) }} />
+        <div className="bg-gray-400" style={{ width: percent(branch.neutral) }} />
+        <div className="bg-red-500" style={{ width: percent(branch.negative) }} />
+      </div>
+      <span>
+        {branch.commentCount} in thread • avg {branch.averagePolarity >= 0 ? '+' : ''}{branch.averagePolarity.toFixed(2)}
+      </span>
+    </div>
+  )
+}
+
+function ThreadBranch({ node, depth }: { node: ThreadNode, depth: number }) {
+  const [expanded, setExpanded] = useState(depth < 2)
+
+  return (
+    <div className={depth > 0 ? 'border-l-2 border-gray-200 pl-4' : ''}>
+      <div className="space-y-1 py-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium">
+            {node.authorName || (node.authorUsername ? `@${node.authorUsername}` : 'Unknown')}
+          </span>
+          <span className="text-muted-foreground">
+            {new Date(node.createdTime).toLocaleString()}
+          </span>
+          <Badge variant="secondary" className={getSentimentColor(node.sentimentLabel)}>
+            {node.sentimentLabel || 'PENDING'}
+          </Badge>
+          {node.contextSentimentLabel && node.contextSentimentLabel !== node.sentimentLabel && (
+            <Badge variant="outline" className={getSentimentColor(node.contextSentimentLabel)}>
+              {node.contextSentimentLabel} in context
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm">{node.message}</p>
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Heart className="h-3 w-3" />
+            {node.likeCount}
+          </span>
+          {node.replies.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-1 text-xs"
+              onClick={() => setExpanded(prev => !prev)}
+            >
+              {expanded ? <ChevronDown className="mr-1 h-3 w-3" /> : <ChevronRight className="mr-1 h-3 w-3" />}
+              {node.replies.length} {node.replies.length === 1 ? 'reply' : 'replies'}
+            </Button>
+          )}
+          {node.replies.length > 0 && <BranchBar branch={node.branch} />}
+        </div>
+      </div>
+      {expanded && node.replies.map((reply) => (
+        <ThreadBranch key={reply.id} node={reply} depth={depth + 1} />
+      ))}
+    </div>
+  )
+}
+
+export default function CommentThreads() {
+  const [pages, setPages] = useState<Array<{ id: string, name: string }>>([])
+  const [posts, setPosts] = useState<PostSummary[]>([])
+  const [pageId, setPageId] = useState('all')
+  const [postId, setPostId] = useState('')
+  const [threads, setThreads] = useState<ThreadNode[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    fetchPages()
+  }, [])
+
+  useEffect(() => {
+    fetchPosts(pageId)
+  }, [pageId])
+
+  useEffect(() => {
+    if (postId) fetchThreads(postId)
+  }, [postId])
+
+  const fetchPages = async () => {
+    try {
+      const response = await fetch('/api/pages')
+      if (response.ok) {
+        const data = await response.json()
+        setPages(data.pages || [])
+      }
+    } catch (error) {
+      console.error('Error fetching pages:', error)
+    }
+  }
+
+  const fetchPosts = async (selectedPageId: string) => {
+    try {
+      const params = new URLSearchParams({
+        limit: '50',
+        ...(selectedPageId !== 'all' && { pageId: selectedPageId })
+      })
+      const response = await fetch(`/api/posts?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setPosts(data.posts || [])
+        setPostId('')
+        setThreads([])
+      }
+    } catch (error) {
+      console.error('Error fetching posts:', error)
+    }
+  }
+
+  const fetchThreads = async (selectedPostId: string) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/posts/${selectedPostId}/threads`)
+      if (response.ok) {
+        const data = await response.json()
+        setThreads(data.threads || [])
+      }
+    } catch (error) {
+      console.error('Error fetching comment threads:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Comment Threads
+        </CardTitle>
+        <CardDescription>
+          Follow conversations on a post and see how sentiment shifts down each reply branch
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Page</Label>
+            <Select value={pageId} onValueChange={setPageId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All pages</SelectItem>
+                {pages.map((page) => (
+                  <SelectItem key={page.id} value={page.id}>
+                    {page.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Post</Label>
+            <Select value={postId} onValueChange={setPostId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a post" />
+              </SelectTrigger>
+              <SelectContent>
+                {posts.map((post) => (
+                  <SelectItem key={post.id} value={post.id}>
+                    {(post.message || post.caption || 'Untitled post').slice(0, 60)} ({post._count.comments})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : threads.length > 0 ? (
+          <div className="divide-y">
+            {threads.map((thread) => (
+              <ThreadBranch key={thread.id} node={thread} depth={0} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            {postId ? 'No comments stored for this post yet' : 'Select a post to view its comment threads'}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,331 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ClipboardCheck, Loader2, Undo2 } from 'lucide-react'
+
+type SentimentLabel = 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL'
+
+interface ReviewItem {
+  commentId: string
+  analysisId: string
+  message: string
+  authorName: string | null
+  createdTime: string
+  pageName: string
+  sentimentLabel: SentimentLabel
+  sentimentScore: number
+  toxicityScore: number
+  agreementScore: number | null
+  modelName: string
+  reason: 'LOW_AGREEMENT' | 'LOW_CONFIDENCE'
+}
+
+interface AnnotationSummary {
+  id: string
+  commentId: string
+  sentimentLabel: SentimentLabel
+  isToxic: boolean | null
+  note: string | null
+  updatedAt: string
+  message: string
+  modelLabel: { sentimentLabel: SentimentLabel, modelName: string } | null
+}
+
+// Toxicity choices; "model" keeps the model's toxicity score
+type ToxicityChoice = 'model' | 'toxic' | 'not-toxic'
+
+const LABELS: SentimentLabel[] = ['POSITIVE', 'NEUTRAL', 'NEGATIVE']
+
+const PAGE_SIZE = 10
+
+const getSentimentColor = (label: SentimentLabel) => {
+  switch (label) {
+    case 'POSITIVE':
+      return 'bg-green-100 text-green-800'
+    case 'NEGATIVE':
+      return 'bg-red-100 text-red-800'
+    default:
+      return 'bg-gray-100 text-gray-800'
+  }
+}
+
+function ReviewCard({ item, onSave }: {
+  item: ReviewItem
+  onSave: (item: ReviewItem, label: SentimentLabel, toxicity: ToxicityChoice, note: string) => Promise<void>
+}) {
+  const [toxicity, setToxicity] = useState<ToxicityChoice>('model')
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const save = async (label: SentimentLabel) => {
+    setSaving(true)
+    try {
+      await onSave(item, label, toxicity, note)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 py-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{item.authorName || 'Unknown'}</span>
+        <span className="text-muted-foreground">
+          {item.pageName} • {new Date(item.createdTime).toLocaleString()}
+        </span>
+        <Badge variant="outline">
+          {item.reason === 'LOW_AGREEMENT' ? 'Models disagree' : 'Low confidence'}
+        </Badge>
+      </div>
+      <p className="text-sm">{item.message}</p>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <Badge variant="secondary" className={getSentimentColor(item.sentimentLabel)}>
+          {item.sentimentLabel}
+        </Badge>
+        <span>
+          {item.modelName} • confidence {(item.sentimentScore * 100).toFixed(0)}%
+          {item.agreementScore !== null && ` • agreement ${(item.agreementScore * 100).toFixed(0)}%`}
+          {` • toxicity ${(item.toxicityScore * 100).toFixed(0)}%`}
+        </span>
+      </div>
+      <div className="grid gap-3 md:grid-cols-[1fr_180px]">
+        <Input
+          placeholder="Note (optional)"
+          value={note}
+          maxLength={1000}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <Select value={toxicity} onValueChange={(value) => setToxicity(value as ToxicityChoice)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="model">Keep model toxicity</SelectItem>
+            <SelectItem value="toxic">Toxic</SelectItem>
+            <SelectItem value="not-toxic">Not toxic</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {LABELS.map((label) => (
+          <Button
+            key={label}
+            size="sm"
+            variant={label === item.sentimentLabel ? 'default' : 'outline'}
+            disabled={saving}
+            onClick={() => save(label)}
+          >
+            {label === item.sentimentLabel ? `Confirm ${label.toLowerCase()}` : `Actually ${label.toLowerCase()}`}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function ReviewQueue() {
+  const [pages, setPages] = useState<Array<{ id: string, name: string }>>([])
+  const [pageId, setPageId] = useState('all')
+  const [page, setPage] = useState(1)
+  const [items, setItems] = useState<ReviewItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [recent, setRecent] = useState<AnnotationSummary[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchPages()
+    fetchRecent()
+  }, [])
+
+  useEffect(() => {
+    fetchQueue(pageId, page)
+  }, [pageId, page])
+
+  const fetchPages = async () => {
+    try {
+      const response = await fetch('/api/pages')
+      if (response.ok) {
+        const data = await response.json()
+        setPages(data.pages || [])
+      }
+    } catch (error) {
+      console.error('Error fetching pages:', error)
+    }
+  }
+
+  const fetchQueue = async (selectedPageId: string, selectedPage: number) => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({
+        page: selectedPage.toString(),
+        limit: PAGE_SIZE.toString(),
+        ...(selectedPageId !== 'all' && { pageId: selectedPageId })
+      })
+      const response = await fetch(`/api/review?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setItems(data.items || [])
+        setTotal(data.pagination?.total || 0)
+      }
+    } catch (error) {
+      console.error('Error fetching review queue:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchRecent = async () => {
+    try {
+      const response = await fetch('/api/annotations?limit=5')
+      if (response.ok) {
+        const data = await response.json()
+        setRecent(data.annotations || [])
+      }
+    } catch (error) {
+      console.error('Error fetching annotations:', error)
+    }
+  }
+
+  const handleSave = async (item: ReviewItem, label: SentimentLabel, toxicity: ToxicityChoice, note: string) => {
+    setError(null)
+    try {
+      const response = await fetch('/api/annotations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          commentId: item.commentId,
+          sentimentLabel: label,
+          isToxic: toxicity === 'model' ? null : toxicity === 'toxic',
+          note: note.trim() || null
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(data.error || 'Failed to save annotation')
+        return
+      }
+
+      setItems(prev => prev.filter(other => other.commentId !== item.commentId))
+      setTotal(prev => Math.max(0, prev - 1))
+      fetchRecent()
+    } catch (error) {
+      console.error('Error saving annotation:', error)
+      setError('Failed to save annotation')
+    }
+  }
+
+  const handleUndo = async (annotation: AnnotationSummary) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/annotations/${annotation.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        setError('Failed to undo annotation')
+        return
+      }
+
+      fetchRecent()
+      fetchQueue(pageId, page)
+    } catch (error) {
+      console.error('Error deleting annotation:', error)
+      setError('Failed to undo annotation')
+    }
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Review Queue
+        </CardTitle>
+        <CardDescription>
+          Correct labels the models were unsure or divided about. Reports and exports use your label in place of the model&apos;s.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="w-full space-y-2 md:w-64">
+            <Label>Page</Label>
+            <Select value={pageId} onValueChange={(value) => { setPageId(value); setPage(1) }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All pages</SelectItem>
+                {pages.map((page) => (
+                  <SelectItem key={page.id} value={page.id}>
+                    {page.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <span className="text-sm text-muted-foreground">{total} awaiting review</span>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : items.length > 0 ? (
+          <div className="divide-y">
+            {items.map((item) => (
+              <ReviewCard key={item.commentId} item={item} onSave={handleSave} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            Nothing to review right now
+          </div>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-end gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(prev => prev - 1)}>
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">Page {page} of {pageCount}</span>
+            <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(prev => prev + 1)}>
+              Next
+            </Button>
+          </div>
+        )}
+
+        {recent.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <Label className="text-sm font-medium">Recently reviewed</Label>
+            {recent.map((annotation) => (
+              <div key={annotation.id} className="flex items-center gap-2 text-sm">
+                <Badge variant="secondary" className={getSentimentColor(annotation.sentimentLabel)}>
+                  {annotation.sentimentLabel}
+                </Badge>
+                {annotation.modelLabel && annotation.modelLabel.sentimentLabel !== annotation.sentimentLabel && (
+                  <span className="text-xs text-muted-foreground">
+                    was {annotation.modelLabel.sentimentLabel.toLowerCase()}
+                  </span>
+                )}
+                <span className="flex-1 truncate">{annotation.message}</span>
+                <Button variant="ghost" size="sm" onClick={() => handleUndo(annotation)}>
+                  <Undo2 className="mr-1 h-3 w-3" />
+                  Undo
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,7 +10,9 @@ import {
   Database, 
   Download, 
   Home, 
+  ListChecks,
   Menu, 
+  RotateCcw,
   Settings, 
   Users, 
   X,
@@ -33,6 +35,8 @@ const navigation = [
   { name: 'Explorer', href: '/dashboard/explorer', icon: Database },
   { name: 'Insights', href: '/dashboard/insights', icon: BarChart3 },
   { name: 'Export', href: '/dashboard/export', icon: Download },
+  { name: 'Jobs', href: '/dashboard/jobs', icon: ListChecks },
+  { name: 'Re-analysis', href: '/dashboard/reanalysis', icon: RotateCcw },
 ]
 
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
@@ -0,0 +1,206 @@
+// src/lib/activity.ts
+import { PrismaClient, JobStatus, JobType, Prisma } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+export type ActivityType = 'FETCH' | 'ANALYSIS' | 'EXPORT' | 'TOKEN' | 'CLEANUP'
+
+export const ACTIVITY_TYPES: ActivityType[] = ['FETCH', 'ANALYSIS', 'EXPORT', 'TOKEN', 'CLEANUP']
+
+export interface ActivityItem {
+  id: string
+  type: ActivityType
+  message: string
+  timestamp: string
+  status: 'SUCCESS' | 'FAILED'
+  details?: Record<string, unknown>
+}
+
+// Audit log actions that surface in the activity feed
+const AUDIT_ACTION_TYPES: Record<string, ActivityType> = {
+  ANALYSIS_COMPLETED: 'ANALYSIS',
+  REANALYSIS_COMPLETED: 'ANALYSIS',
+  DATA_EXPORT: 'EXPORT',
+  TOKEN_REFRESHED: 'TOKEN',
+  TOKEN_INVALID: 'TOKEN',
+  DATA_CLEANUP: 'CLEANUP'
+}
+
+// Jobs whose completion is itself the activity; other job types record audit entries instead
+const JOB_ACTIVITY_TYPES: Partial<Record<JobType, ActivityType>> = {
+  [JobType.FETCH_POSTS]: 'FETCH',
+  [JobType.FETCH_COMMENTS]: 'FETCH',
+  [JobType.REBUILD_ROLLUPS]: 'ANALYSIS'
+}
+
+const MAX_PAGE_SIZE = 100
+
+// Record a user-visible event in the audit log
+export async function recordActivity(
+  userId: string,
+  action: keyof typeof AUDIT_ACTION_TYPES,
+  resource: string,
+  message: string,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId,
+        action,
+        resource,
+        details: { ...details, message } as Prisma.InputJsonObject
+      }
+    })
+  } catch (error) {
+    // Activity is informational; never fail the operation that produced it
+    console.error(`Error recording ${action} activity for user ${userId}:`, error)
+  }
+}
+
+// Merge audit entries and finished jobs into a single newest-first feed
+export async function getActivityFeed(
+  userId: string,
+  options: {
+    types?: ActivityType[]
+    page?: number
+    limit?: number
+  } = {}
+): Promise<{ activities: ActivityItem[], hasMore: boolean }> {
+  const types = options.types?.length ? options.types : ACTIVITY_TYPES
+  const page = Math.max(1, options.page || 1)
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, options.limit || 20))
+
+  // Each source needs enough rows to fill every page up to the requested one
+  const take = page * limit + 1
+
+  const auditActions = Object.keys(AUDIT_ACTION_TYPES)
+    .filter(action => types.includes(AUDIT_ACTION_TYPES[action]))
+  const jobTypes = (Object.keys(JOB_ACTIVITY_TYPES) as JobType[])
+    .filter(type => types.includes(JOB_ACTIVITY_TYPES[type]!))
+
+  const [auditLogs, jobs] = await Promise.all([
+    auditActions.length > 0
+      ? prisma.auditLog.findMany({
+          where: {
+            userId,
+            action: { in: auditActions }
+          },
+          orderBy: { createdAt: 'desc' },
+          take
+        })
+      : [],
+    jobTypes.length > 0 ? findActivityJobs(userId, jobTypes, take) : []
+  ])
+
+  const activities: ActivityItem[] = [
+    ...auditLogs.map(log => {
+      const details = (log.details || {}) as Record<string, unknown>
+      return {
+        id: `audit-${log.id}`,
+        type: AUDIT_ACTION_TYPES[log.action],
+        message: typeof details.message === 'string' ? details.message : describeAuditLog(log.action, details),
+        timestamp: log.createdAt.toISOString(),
+        status: log.action === 'TOKEN_INVALID' ? 'FAILED' as const : 'SUCCESS' as const,
+        details
+      }
+    }),
+    ...jobs.map(job => ({
+      id: `job-${job.id}`,
+      type: JOB_ACTIVITY_TYPES[job.type]!,
+      message: describeJob(job.type, job.status, job.result as Record<string, unknown> | null, job.lastError),
+      timestamp: (job.completedAt || job.updatedAt).toISOString(),
+      status: job.status === JobStatus.COMPLETED ? 'SUCCESS' as const : 'FAILED' as const,
+      details: {
+        jobId: job.id,
+        ...(job.result as Record<string, unknown> | null)
+      }
+    }))
+  ].sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+
+  const offset = (page - 1) * limit
+
+  return {
+    activities: activities.slice(offset, offset + limit),
+    hasMore: activities.length > offset + limit
+  }
+}
+
+// Scheduled syncs that found nothing new would bury real events, so they're left out
+function isEmptyJobResult(type: JobType, status: JobStatus, result: Record<string, unknown> | null): boolean {
+  if (status !== JobStatus.COMPLETED) return false
+
+  switch (type) {
+    case JobType.FETCH_POSTS:
+      return result?.postCount === 0
+    case JobType.FETCH_COMMENTS:
+      return result?.commentCount === 0
+    default:
+      return false
+  }
+}
+
+// Finished jobs for the feed, newest first, skipping empty results until `take` are found
+async function findActivityJobs(userId: string, jobTypes: JobType[], take: number) {
+  const jobs = []
+  let skip = 0
+
+  while (jobs.length < take) {
+    const batch = await prisma.job.findMany({
+      where: {
+        userId,
+        type: { in: jobTypes },
+        status: { in: [JobStatus.COMPLETED, JobStatus.DEAD_LETTER] }
+      },
+      // Same order as the feed's timestamp; dead letters from before completedAt was set come last
+      orderBy: [
+        { completedAt: { sort: 'desc', nulls: 'last' } },
+        { updatedAt: 'desc' }
+      ],
+      skip,
+      take
+    })
+
+    jobs.push(...batch.filter(job =>
+      !isEmptyJobResult(job.type, job.status, job.result as Record<string, unknown> | null)
+    ))
+
+    if (batch.length < take) break
+    skip += batch.length
+  }
+
+  return jobs.slice(0, take)
+}
+
+// Fallback for audit entries written without a message
+function describeAuditLog(action: string, details: Record<string, unknown>): string {
+  switch (action) {
+    case 'DATA_CLEANUP':
+      return `Removed ${details.deletedComments ?? 0} comments past the retention period`
+    default:
+      return action.replace(/_/g, ' ').toLowerCase()
+  }
+}
+
+function describeJob(
+  type: JobType,
+  status: JobStatus,
+  result: Record<string, unknown> | null,
+  lastError: string | null
+): string {
+  // Processors prefix their errors with what failed, e.g. "Failed to fetch posts: ..."
+  if (status === JobStatus.DEAD_LETTER) {
+    return lastError || `${type} failed`
+  }
+
+  switch (type) {
+    case JobType.FETCH_POSTS:
+      return `Fetched ${result?.postCount ?? 0} posts from ${result?.pageName ?? 'page'}`
+    case JobType.FETCH_COMMENTS:
+      return `Fetched ${result?.commentCount ?? 0} new comments from ${result?.pageName ?? 'page'}`
+    case JobType.REBUILD_ROLLUPS:
+      return `Rebuilt sentiment rollups for ${result?.pageCount ?? 0} page(s)`
+    default:
+      return `${type} completed`
+  }
+}
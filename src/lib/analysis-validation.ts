@@ -0,0 +1,187 @@
+// src/lib/analysis-validation.ts
+import { Sentiment } from '@prisma/client'
+import { EMOTIONS, EmotionScores } from './emotions'
+import type { AnalysisResult, ContextSentimentResult } from './analysis'
+
+const MAX_KEYWORDS = 8
+const MAX_KEYWORD_LENGTH = 100
+const MAX_CLAIMS = 10
+const MAX_CLAIM_LENGTH = 500
+
+const FACTUAL_ACCURACY_VALUES = ['True', 'False', 'Misleading', 'Unverified'] as const
+
+// Spellings models use for the three labels, compared lowercased
+const SENTIMENT_SYNONYMS: Record<string, Sentiment> = {
+  positive: Sentiment.POSITIVE,
+  pos: Sentiment.POSITIVE,
+  negative: Sentiment.NEGATIVE,
+  neg: Sentiment.NEGATIVE,
+  neutral: Sentiment.NEUTRAL,
+  neu: Sentiment.NEUTRAL,
+  mixed: Sentiment.NEUTRAL
+}
+
+// An analyzer output that can't be used even after normalisation; issues name each problem
+export class AnalysisValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid analyzer output: ${issues.join('; ')}`)
+    this.name = 'AnalysisValidationError'
+  }
+}
+
+export function normalizeSentimentLabel(value: unknown): Sentiment | null {
+  if (typeof value !== 'string') return null
+  return SENTIMENT_SYNONYMS[value.trim().toLowerCase()] ?? null
+}
+
+// Scores this far outside 0-1 are rounding overshoot and clamped; larger ones, up to 100,
+// are percentages
+const SCORE_TOLERANCE = 0.05
+
+// Numbers and numeric strings as a 0-1 score. "85%" and numbers from 1 + SCORE_TOLERANCE
+// to 100 are read as percentages; anything else outside the tolerance is unusable.
+export function normalizeScore(value: unknown): number | null {
+  const score = typeof value === 'string' ? parseFloat(value) : value
+  if (typeof score !== 'number' || !Number.isFinite(score)) return null
+
+  const isPercentage = (typeof value === 'string' && value.trim().endsWith('%')) || score > 1 + SCORE_TOLERANCE
+  const normalized = isPercentage ? score / 100 : score
+
+  if (normalized < -SCORE_TOLERANCE || normalized > 1 + SCORE_TOLERANCE) return null
+
+  return Math.min(1, Math.max(0, normalized))
+}
+
+// Trimmed, non-empty strings of a sensible length, deduplicated case-insensitively
+function normalizeStrings(value: unknown, maxItems: number, maxLength: number): string[] {
+  if (!Array.isArray(value)) return []
+
+  const seen = new Set<string>()
+  const strings: string[] = []
+
+  for (const item of value) {
+    if (typeof item !== 'string') continue
+
+    const text = item.trim()
+    if (!text || text.length > maxLength || seen.has(text.toLowerCase())) continue
+
+    seen.add(text.toLowerCase())
+    strings.push(text)
+    if (strings.length === maxItems) break
+  }
+
+  return strings
+}
+
+export function normalizeKeywords(value: unknown): string[] {
+  return normalizeStrings(value, MAX_KEYWORDS, MAX_KEYWORD_LENGTH)
+}
+
+function normalizeLanguage(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+
+  // ISO 639-1, optionally with a region or script: "en", "pt-BR", "zh-hans"
+  const language = value.trim().toLowerCase()
+  return /^[a-z]{2,3}(-[a-z0-9]{2,4})?$/.test(language) ? language : undefined
+}
+
+function normalizeFactualAccuracy(value: unknown): AnalysisResult['factualAccuracy'] {
+  if (typeof value !== 'string') return undefined
+
+  const lower = value.trim().toLowerCase()
+  return FACTUAL_ACCURACY_VALUES.find(accuracy => accuracy.toLowerCase() === lower)
+}
+
+function normalizeEmotions(value: EmotionScores): EmotionScores {
+  const emotions = { ...value }
+  for (const emotion of EMOTIONS) {
+    emotions[emotion] = normalizeScore(value[emotion]) ?? 0
+  }
+  return emotions
+}
+
+// Sentiment and confidence as a model returned them in JSON.
+// A missing or unknown label, or a confidence that isn't a number, is unusable.
+export function validateSentimentOutput(raw: Record<string, unknown>): ContextSentimentResult {
+  const sentimentLabel = normalizeSentimentLabel(raw.sentiment)
+  const sentimentScore = normalizeScore(raw.confidence)
+  const issues: string[] = []
+
+  if (!sentimentLabel) {
+    issues.push(`sentiment must be one of POSITIVE, NEGATIVE or NEUTRAL, got ${JSON.stringify(raw.sentiment)}`)
+  }
+  if (sentimentScore === null) {
+    issues.push(`confidence must be a number between 0 and 1, got ${JSON.stringify(raw.confidence)}`)
+  }
+
+  if (!sentimentLabel || sentimentScore === null) {
+    throw new AnalysisValidationError(issues)
+  }
+
+  return { sentimentLabel, sentimentScore }
+}
+
+// A full analysis as a model returned it in JSON. Toxicity must be a number too;
+// optional fields that don't fit are dropped rather than rejecting the response.
+export function validateAnalysisOutput(
+  raw: Record<string, unknown>
+): Omit<AnalysisResult, 'modelName' | 'modelVersion'> {
+  const issues: string[] = []
+  let sentiment: ContextSentimentResult | null = null
+
+  try {
+    sentiment = validateSentimentOutput(raw)
+  } catch (error) {
+    if (!(error instanceof AnalysisValidationError)) throw error
+    issues.push(...error.issues)
+  }
+
+  const toxicityScore = normalizeScore(raw.toxicity)
+  if (toxicityScore === null) {
+    issues.push(`toxicity must be a number between 0 and 1, got ${JSON.stringify(raw.toxicity)}`)
+  }
+
+  if (!sentiment || toxicityScore === null) {
+    throw new AnalysisValidationError(issues)
+  }
+
+  return {
+    ...sentiment,
+    toxicityScore,
+    language: normalizeLanguage(raw.language),
+    keywords: normalizeKeywords(raw.keywords),
+    claims: normalizeStrings(raw.claims, MAX_CLAIMS, MAX_CLAIM_LENGTH),
+    factualAccuracy: normalizeFactualAccuracy(raw.factualAccuracy)
+  }
+}
+
+// Final check on any analyzer's result before it's used: the label must be known,
+// scores are clamped to 0-1 and keywords that aren't usable strings are dropped
+export function validateAnalysisResult(result: AnalysisResult): AnalysisResult {
+  const sentimentLabel = normalizeSentimentLabel(result.sentimentLabel)
+  if (!sentimentLabel) {
+    throw new AnalysisValidationError([`${result.modelName} returned unknown sentiment ${JSON.stringify(result.sentimentLabel)}`])
+  }
+
+  return {
+    ...result,
+    sentimentLabel,
+    sentimentScore: normalizeScore(result.sentimentScore) ?? 0,
+    toxicityScore: normalizeScore(result.toxicityScore) ?? 0,
+    ...(result.emotions && { emotions: normalizeEmotions(result.emotions) }),
+    ...(result.keywords && { keywords: normalizeKeywords(result.keywords) }),
+    ...(result.language !== undefined && { language: normalizeLanguage(result.language) })
+  }
+}
+
+export function validateContextResult(result: ContextSentimentResult, source: string): ContextSentimentResult {
+  const sentimentLabel = normalizeSentimentLabel(result.sentimentLabel)
+  if (!sentimentLabel) {
+    throw new AnalysisValidationError([`${source} returned unknown context sentiment ${JSON.stringify(result.sentimentLabel)}`])
+  }
+
+  return {
+    sentimentLabel,
+    sentimentScore: normalizeScore(result.sentimentScore) ?? 0
+  }
+}
@@ -1,32 +1,116 @@
 // src/lib/analysis.ts
 import { Sentiment } from '@prisma/client'
+import { EmotionScores, groupEmotionLabels } from './emotions'
+import { detectLanguage } from './language'
+import { getKeywordExtractor } from './keywords'
+import { parseModelJson } from './llm-json'
+import { validateAnalysisOutput, validateAnalysisResult, validateContextResult, validateSentimentOutput } from './analysis-validation'
+import { recordRejectedResponse, recordRepairedResponse } from './response-stats'
+import { EmojiCounts, blendEmojiSentiment, countEmojis, emojiSentiment, isEmojiOnly } from './emoji'
+import { EnsembleMember, EnsembleOutcome, combineResults, ensembleFromEnv, reviewAgreementFromEnv } from './ensemble'
 
 // Analysis result interface
 export interface AnalysisResult {
   sentimentLabel: Sentiment
   sentimentScore: number // 0-1 confidence
   toxicityScore: number // 0-1 toxicity level
+  emotions?: EmotionScores // Only from analyzers with an emotion model
+  emojis?: EmojiCounts
   language?: string
   keywords?: string[]
   claims?: string[]
   factualAccuracy?: 'True' | 'False' | 'Misleading' | 'Unverified'
   modelName: string
   modelVersion?: string
+  ensemble?: EnsembleOutcome // Only in ensemble mode
+}
+
+// The conversation a comment was written in
+export interface AnalysisContext {
+  postText?: string | null
+  parentText?: string | null // The comment being replied to
+}
+
+export interface ContextualText {
+  text: string
+  context: AnalysisContext
+}
+
+// Sentiment of a comment as read within its conversation
+export interface ContextSentimentResult {
+  sentimentLabel: Sentiment
+  sentimentScore: number // 0-1 confidence
 }
 
 // Base analyzer interface
 export interface SentimentAnalyzer {
   analyze(text: string): Promise<AnalysisResult>
+  analyzeBatch(texts: string[]): Promise<AnalysisResult[]> // Results in input order
+  analyzeInContext(items: ContextualText[]): Promise<ContextSentimentResult[]> // Results in input order
   isAvailable(): Promise<boolean>
   getName(): string
 }
 
+// Context is trimmed so the comment itself stays within classifier input limits
+const MAX_CONTEXT_CHARS = 280
+
+function truncateContext(text: string): string {
+  return text.length > MAX_CONTEXT_CHARS ? `${text.slice(0, MAX_CONTEXT_CHARS)}...` : text
+}
+
+// Plain classifiers see the comment after the text it responds to, so a short
+// reply like "exactly!" takes on the tone of the comment it agrees with
+function contextualInput({ text, context }: ContextualText): string {
+  const parts: string[] = []
+  if (context.postText) parts.push(truncateContext(context.postText))
+  if (context.parentText) parts.push(truncateContext(context.parentText))
+  parts.push(text)
+  return parts.join('\n\n')
+}
+
+// Star ratings from the multilingual model: 1-2 negative, 3 neutral, 4-5 positive.
+// The label takes the combined probability of its stars.
+function sentimentFromStars(stars: Array<{ label: string, score: number }>): ContextSentimentResult {
+  const totals = { [Sentiment.NEGATIVE]: 0, [Sentiment.NEUTRAL]: 0, [Sentiment.POSITIVE]: 0 }
+
+  for (const { label, score } of stars) {
+    const rating = parseInt(label, 10)
+    if (rating <= 2) totals[Sentiment.NEGATIVE] += score
+    else if (rating === 3) totals[Sentiment.NEUTRAL] += score
+    else totals[Sentiment.POSITIVE] += score
+  }
+
+  const [sentimentLabel, sentimentScore] = (Object.entries(totals) as Array<[Sentiment, number]>)
+    .sort((a, b) => b[1] - a[1])[0]
+
+  return { sentimentLabel, sentimentScore }
+}
+
+function sentimentFromLabel(label: string): Sentiment {
+  switch (label.toLowerCase()) {
+    case 'positive':
+      return Sentiment.POSITIVE
+    case 'negative':
+      return Sentiment.NEGATIVE
+    default:
+      return Sentiment.NEUTRAL
+  }
+}
+
 // Local Node.js analyzer using @xenova/transformers
 export class LocalTransformersAnalyzer implements SentimentAnalyzer {
+  private static readonly ENGLISH_MODEL = 'xenova-distilbert-sst2'
+  private static readonly MULTILINGUAL_MODEL = 'xenova-bert-multilingual-sentiment'
+
   private pipeline: unknown = null
+  private multilingualPipeline: unknown = null
   private toxicityPipeline: unknown = null
+  private emotionPipeline: unknown = null
   private initialized = false
 
+  // The emotion model is opt-in: it roughly doubles model memory and analysis time
+  constructor(private emotionsEnabled: boolean = process.env.ANALYSIS_EMOTIONS === 'true') {}
+
   async initialize(): Promise<void> {
     if (this.initialized) return
 
@@ -46,6 +130,19 @@ export class LocalTransformersAnalyzer implements SentimentAnalyzer {
         'Xenova/toxic-bert'
       )
 
+      // Multi-label GoEmotions classifier; sentiment still works if it can't be loaded
+      if (this.emotionsEnabled) {
+        try {
+          this.emotionPipeline = await pipeline(
+            'text-classification',
+            'SamLowe/roberta-base-go_emotions-onnx'
+          )
+        } catch (error) {
+          console.error('Failed to load emotion model, continuing without emotions:', error)
+          this.emotionPipeline = null
+        }
+      }
+
       this.initialized = true
       console.log('Local transformers analyzer initialized')
     } catch (error) {
@@ -54,50 +151,89 @@ export class LocalTransformersAnalyzer implements SentimentAnalyzer {
     }
   }
 
+  // Loaded the first time non-English text comes in, so English-only workloads never pay for it
+  private async initializeMultilingual(): Promise<void> {
+    if (this.multilingualPipeline) return
+
+    try {
+      const { pipeline } = await import('@xenova/transformers')
+
+      this.multilingualPipeline = await pipeline(
+        'sentiment-analysis',
+        'Xenova/bert-base-multilingual-uncased-sentiment'
+      )
+
+      console.log('Multilingual sentiment model initialized')
+    } catch (error) {
+      console.error('Failed to initialize multilingual sentiment model:', error)
+      throw error
+    }
+  }
+
   async analyze(text: string): Promise<AnalysisResult> {
+    const [result] = await this.analyzeBatch([text])
+    return result
+  }
+
+  async analyzeBatch(texts: string[]): Promise<AnalysisResult[]> {
+    if (texts.length === 0) return []
+
     await this.initialize()
 
     try {
-      // Sentiment analysis
-      const sentimentResult = await (this.pipeline as any)(text)
-      const sentiment = sentimentResult[0]
-
-      // Map labels to our enum
-      let sentimentLabel: Sentiment
-      switch (sentiment.label.toLowerCase()) {
-        case 'positive':
-          sentimentLabel = Sentiment.POSITIVE
-          break
-        case 'negative':
-          sentimentLabel = Sentiment.NEGATIVE
-          break
-        default:
-          sentimentLabel = Sentiment.NEUTRAL
-      }
+      const languages = texts.map(detectLanguage)
+      const sentimentResults = await this.classifySentiment(texts, languages)
+
+      // The toxicity pipeline accepts an array and returns one result per input
+      const toxicityResults = await (this.toxicityPipeline as any)(texts)
+
+      // Every label's score, not just the top one, since several emotions can apply at once
+      const emotionResults: Array<Array<{ label: string, score: number }>> | null = this.emotionPipeline
+        ? await (this.emotionPipeline as any)(texts, { topk: null })
+        : null
+
+      return texts.map((text, index) => {
+        const sentiment = sentimentResults[index]
+
+        // Toxicity results are a single label per input, or a list when top-k is configured
+        const toxicity = toxicityResults[index]
+        const toxicityLabels: Array<{ label: string, score: number }> = Array.isArray(toxicity) ? toxicity : [toxicity]
+        const toxicityScore = toxicityLabels.find(r =>
+          r.label.toLowerCase().includes('toxic')
+        )?.score || 0
+
+        return {
+          sentimentLabel: sentiment.sentimentLabel,
+          sentimentScore: sentiment.sentimentScore,
+          toxicityScore,
+          ...(emotionResults && { emotions: groupEmotionLabels(emotionResults[index]) }),
+          language: languages[index] ?? undefined,
+          keywords: getKeywordExtractor().extract(text, languages[index]),
+          modelName: sentiment.modelName,
+          modelVersion: '1.0'
+        }
+      })
+    } catch (error) {
+      console.error('Error in local analysis:', error)
+      throw error
+    }
+  }
 
-      // Toxicity analysis
-      const toxicityResult = await (this.toxicityPipeline as any)(text)
-      const toxicityScore = toxicityResult.find((r: {
-        label: string
-        score: number
-      }) => 
-        r.label.toLowerCase().includes('toxic')
-      )?.score || 0
+  async analyzeInContext(items: ContextualText[]): Promise<ContextSentimentResult[]> {
+    if (items.length === 0) return []
 
-      // Simple keyword extraction (basic implementation)
-      const keywords = this.extractKeywords(text)
+    await this.initialize()
 
-      return {
-        sentimentLabel,
-        sentimentScore: sentiment.score,
-        toxicityScore,
-        language: this.detectLanguage(text),
-        keywords,
-        modelName: 'xenova-distilbert-sst2',
-        modelVersion: '1.0'
-      }
+    try {
+      // The comment's own language picks the model, whatever its context is written in
+      const sentimentResults = await this.classifySentiment(
+        items.map(contextualInput),
+        items.map(item => detectLanguage(item.text))
+      )
+
+      return sentimentResults.map(({ sentimentLabel, sentimentScore }) => ({ sentimentLabel, sentimentScore }))
     } catch (error) {
-      console.error('Error in local analysis:', error)
+      console.error('Error in local contextual analysis:', error)
       throw error
     }
   }
@@ -115,86 +251,82 @@ export class LocalTransformersAnalyzer implements SentimentAnalyzer {
     return 'Local Transformers'
   }
 
-  private extractKeywords(text: string): string[] {
-    // Simple keyword extraction - remove stop words and get frequent terms
-    const stopWords = new Set([
-      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
-      'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
-      'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
-      'should', 'may', 'might', 'must', 'can', 'this', 'that', 'these', 'those'
-    ])
-
-    const words = text.toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .split(/\s+/)
-      .filter(word => word.length > 2 && !stopWords.has(word))
-
-    // Get word frequency
-    const wordCount = new Map<string, number>()
-    words.forEach(word => {
-      wordCount.set(word, (wordCount.get(word) || 0) + 1)
+  // English and undetermined text goes to SST-2, anything else to the multilingual model
+  private async classifySentiment(
+    texts: string[],
+    languages: Array<string | null>
+  ): Promise<Array<ContextSentimentResult & { modelName: string }>> {
+    const results: Array<ContextSentimentResult & { modelName: string }> = new Array(texts.length)
+    const englishIndexes: number[] = []
+    const multilingualIndexes: number[] = []
+
+    languages.forEach((language, index) => {
+      if (language && language !== 'en') {
+        multilingualIndexes.push(index)
+      } else {
+        englishIndexes.push(index)
+      }
     })
 
-    // Return top 5 keywords
-    return Array.from(wordCount.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([word]) => word)
-  }
-
-  private detectLanguage(text: string): string {
-    // Simple language detection - could be enhanced with a proper library
-    const englishWords = ['the', 'and', 'is', 'in', 'to', 'of', 'a', 'that', 'it', 'with']
-    const spanishWords = ['el', 'la', 'de', 'que', 'y', 'en', 'un', 'es', 'se', 'no']
-    const frenchWords = ['le', 'de', 'et', 'à', 'un', 'il', 'être', 'et', 'en', 'avoir']
+    if (englishIndexes.length > 0) {
+      const output = await (this.pipeline as any)(englishIndexes.map(index => texts[index]))
+      englishIndexes.forEach((textIndex, index) => {
+        results[textIndex] = {
+          sentimentLabel: sentimentFromLabel(output[index].label),
+          sentimentScore: output[index].score,
+          modelName: LocalTransformersAnalyzer.ENGLISH_MODEL
+        }
+      })
+    }
 
-    const lowerText = text.toLowerCase()
-    
-    let englishScore = 0
-    let spanishScore = 0
-    let frenchScore = 0
+    if (multilingualIndexes.length > 0) {
+      await this.initializeMultilingual()
 
-    englishWords.forEach(word => {
-      if (lowerText.includes(word)) englishScore++
-    })
-    spanishWords.forEach(word => {
-      if (lowerText.includes(word)) spanishScore++
-    })
-    frenchWords.forEach(word => {
-      if (lowerText.includes(word)) frenchScore++
-    })
+      // Every star rating's probability, so neighbouring ratings can be combined
+      const output = await (this.multilingualPipeline as any)(
+        multilingualIndexes.map(index => texts[index]),
+        { topk: null }
+      )
+      multilingualIndexes.forEach((textIndex, index) => {
+        results[textIndex] = {
+          ...sentimentFromStars(output[index]),
+          modelName: LocalTransformersAnalyzer.MULTILINGUAL_MODEL
+        }
+      })
+    }
 
-    if (spanishScore > englishScore && spanishScore > frenchScore) return 'es'
-    if (frenchScore > englishScore && frenchScore > spanishScore) return 'fr'
-    return 'en' // Default to English
+    return results
   }
+
 }
 
-// OpenAI analyzer (external API)
-export class OpenAIAnalyzer implements SentimentAnalyzer {
-  private apiKey: string
+// How an OpenAI-compatible server is asked to return JSON:
+// json_schema sends the response schema (OpenAI, Ollama, llama.cpp server, vLLM),
+// json_object asks for any JSON object, none relies on the prompt alone
+export type StructuredOutputMode = 'json_schema' | 'json_object' | 'none'
+
+export interface ChatAnalyzerConfig {
+  baseUrl: string // Up to and including the version segment, e.g. http://localhost:11434/v1
+  model: string
+  apiKey?: string // Sent as a bearer token when set; local servers usually need none
+  structuredOutput: StructuredOutputMode
+  timeoutMs: number
+  repairAttempts: number // Times an invalid reply is sent back to the model to be corrected
+  name?: string
+  modelName?: string // Stored on each analysis; defaults to llm-<model>
+  modelVersion?: string
+}
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.OPENAI_API_KEY || ''
-  }
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
 
-  async analyze(text: string): Promise<AnalysisResult> {
-    if (!this.apiKey) {
-      throw new Error('OpenAI API key not configured')
-    }
+// Local models can take a while on CPU, so requests get longer than an API's usual latency
+const DEFAULT_CHAT_TIMEOUT_MS = 60000
+const DEFAULT_REPAIR_ATTEMPTS = 1
 
-    try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [{
-            role: 'system',
-            content: `Analyze the sentiment, toxicity, and extract keywords from the given text. 
+const ANALYSIS_PROMPT = `Analyze the sentiment, toxicity, and extract keywords from the given text. 
             Respond with a JSON object containing:
             - sentiment: "POSITIVE", "NEGATIVE", or "NEUTRAL"
             - confidence: number between 0 and 1
@@ -203,50 +335,264 @@ export class OpenAIAnalyzer implements SentimentAnalyzer {
             - keywords: array of up to 5 relevant keywords
             - claims: array of factual claims made in the text
             - factualAccuracy: "True", "False", "Misleading", or "Unverified" for the overall content`
-          }, {
-            role: 'user',
-            content: text
-          }],
-          temperature: 0.1,
-          max_tokens: 500
-        })
-      })
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`)
-      }
+const CONTEXT_PROMPT = `Classify the sentiment the final comment expresses within its conversation.
+            A reply that agrees with the comment it answers ("exactly!", "so true") shares that comment's sentiment;
+            a reply that disagrees takes the opposite stance.
+            Respond with a JSON object containing:
+            - sentiment: "POSITIVE", "NEGATIVE", or "NEUTRAL"
+            - confidence: number between 0 and 1`
 
-      const data = await response.json()
-      const result = JSON.parse(data.choices[0].message.content)
+function repairPrompt(problem: string): string {
+  return `That response could not be used: ${problem}
+            Reply again with only the corrected JSON object.`
+}
+
+const SENTIMENT_SCHEMA = { type: 'string', enum: ['POSITIVE', 'NEGATIVE', 'NEUTRAL'] }
+
+// Strict structured output requires every property to be listed as required
+const ANALYSIS_SCHEMA = {
+  name: 'comment_analysis',
+  schema: {
+    type: 'object',
+    properties: {
+      sentiment: SENTIMENT_SCHEMA,
+      confidence: { type: 'number' },
+      toxicity: { type: 'number' },
+      language: { type: 'string' },
+      keywords: { type: 'array', items: { type: 'string' } },
+      claims: { type: 'array', items: { type: 'string' } },
+      factualAccuracy: { type: 'string', enum: ['True', 'False', 'Misleading', 'Unverified'] }
+    },
+    required: ['sentiment', 'confidence', 'toxicity', 'language', 'keywords', 'claims', 'factualAccuracy'],
+    additionalProperties: false
+  }
+}
+
+const CONTEXT_SCHEMA = {
+  name: 'context_sentiment',
+  schema: {
+    type: 'object',
+    properties: {
+      sentiment: SENTIMENT_SCHEMA,
+      confidence: { type: 'number' }
+    },
+    required: ['sentiment', 'confidence'],
+    additionalProperties: false
+  }
+}
+
+function structuredOutputFromEnv(value = process.env.LLM_STRUCTURED_OUTPUT): StructuredOutputMode {
+  return value === 'json_object' || value === 'none' ? value : 'json_schema'
+}
+
+function repairAttemptsFromEnv(value = process.env.LLM_REPAIR_ATTEMPTS): number {
+  const attempts = parseInt(value || '', 10)
+  return attempts >= 0 ? attempts : DEFAULT_REPAIR_ATTEMPTS
+}
+
+function responseFormat(mode: StructuredOutputMode, schema: { name: string, schema: object }) {
+  if (mode === 'json_schema') {
+    return { response_format: { type: 'json_schema', json_schema: { ...schema, strict: true } } }
+  }
+  if (mode === 'json_object') {
+    return { response_format: { type: 'json_object' } }
+  }
+  return {}
+}
+
+// Any chat completions server that speaks the OpenAI API: Ollama, llama.cpp server, vLLM, LM Studio.
+// Configured from LLM_BASE_URL, LLM_MODEL, LLM_API_KEY and LLM_STRUCTURED_OUTPUT unless given explicitly.
+export class OpenAICompatibleAnalyzer implements SentimentAnalyzer {
+  protected config: ChatAnalyzerConfig
+
+  constructor(config: Partial<ChatAnalyzerConfig> = {}) {
+    this.config = {
+      ...config,
+      baseUrl: (config.baseUrl ?? process.env.LLM_BASE_URL ?? '').replace(/\/+$/, ''),
+      model: config.model ?? process.env.LLM_MODEL ?? '',
+      apiKey: config.apiKey ?? process.env.LLM_API_KEY,
+      structuredOutput: config.structuredOutput ?? structuredOutputFromEnv(),
+      timeoutMs: config.timeoutMs ?? (parseInt(process.env.LLM_TIMEOUT_MS || '', 10) || DEFAULT_CHAT_TIMEOUT_MS),
+      repairAttempts: config.repairAttempts ?? repairAttemptsFromEnv()
+    }
+  }
+
+  async analyze(text: string): Promise<AnalysisResult> {
+    if (!await this.isAvailable()) {
+      throw new Error(`${this.getName()} is not configured`)
+    }
+
+    try {
+      const result = await this.complete(ANALYSIS_PROMPT, text, ANALYSIS_SCHEMA, 500, validateAnalysisOutput)
 
       return {
-        sentimentLabel: result.sentiment as Sentiment,
-        sentimentScore: result.confidence,
-        toxicityScore: result.toxicity,
-        language: result.language,
-        keywords: result.keywords,
-        claims: result.claims,
-        factualAccuracy: result.factualAccuracy,
-        modelName: 'openai-gpt-3.5-turbo',
-        modelVersion: '3.5'
+        ...result,
+        language: result.language || detectLanguage(text) || undefined,
+        modelName: this.getModelName(),
+        modelVersion: this.config.modelVersion
       }
     } catch (error) {
-      console.error('Error in OpenAI analysis:', error)
+      console.error(`Error in ${this.getName()} analysis:`, error)
+      throw error
+    }
+  }
+
+  // The chat API has no batch mode, so requests go out one at a time to stay under rate limits
+  async analyzeBatch(texts: string[]): Promise<AnalysisResult[]> {
+    const results: AnalysisResult[] = []
+
+    for (const text of texts) {
+      results.push(await this.analyze(text))
+    }
+
+    return results
+  }
+
+  async analyzeInContext(items: ContextualText[]): Promise<ContextSentimentResult[]> {
+    if (!await this.isAvailable()) {
+      throw new Error(`${this.getName()} is not configured`)
+    }
+
+    const results: ContextSentimentResult[] = []
+
+    try {
+      for (const { text, context } of items) {
+        const conversation = [
+          context.postText && `Post: ${truncateContext(context.postText)}`,
+          context.parentText && `Replying to: ${truncateContext(context.parentText)}`,
+          `Comment: ${text}`
+        ].filter(Boolean).join('\n')
+
+        results.push(await this.complete(CONTEXT_PROMPT, conversation, CONTEXT_SCHEMA, 100, validateSentimentOutput))
+      }
+
+      return results
+    } catch (error) {
+      console.error(`Error in ${this.getName()} contextual analysis:`, error)
       throw error
     }
   }
 
   async isAvailable(): Promise<boolean> {
-    return !!this.apiKey
+    return !!(this.config.baseUrl && this.config.model)
   }
 
   getName(): string {
-    return 'OpenAI GPT-3.5'
+    return this.config.name || `LLM (${this.config.model})`
+  }
+
+  private getModelName(): string {
+    return this.config.modelName || `llm-${this.config.model}`
+  }
+
+  // One chat completion, parsed leniently since not every server enforces the response format.
+  // A reply that doesn't parse or validate is counted as rejected and sent back with the
+  // problem so the model can correct it, up to repairAttempts times.
+  private async complete<T>(
+    system: string,
+    content: string,
+    schema: { name: string, schema: object },
+    maxTokens: number,
+    validate: (raw: Record<string, unknown>) => T
+  ): Promise<T> {
+    const messages: ChatMessage[] = [{ role: 'system', content: system }, { role: 'user', content }]
+
+    for (let attempt = 0; ; attempt++) {
+      const reply = await this.request(messages, schema, maxTokens)
+
+      try {
+        const value = validate(parseModelJson(reply))
+        if (attempt > 0) {
+          await recordRepairedResponse(this.getModelName())
+        }
+        return value
+      } catch (error) {
+        const problem = error instanceof Error ? error.message : String(error)
+        await recordRejectedResponse(this.getModelName(), problem)
+
+        if (attempt >= this.config.repairAttempts) throw error
+
+        console.warn(`${this.getName()} returned an invalid response, asking it to repair: ${problem}`)
+        messages.push({ role: 'assistant', content: reply }, { role: 'user', content: repairPrompt(problem) })
+      }
+    }
+  }
+
+  private async request(
+    messages: ChatMessage[],
+    schema: { name: string, schema: object },
+    maxTokens: number
+  ): Promise<string> {
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages,
+        temperature: 0.1,
+        max_tokens: maxTokens,
+        ...responseFormat(this.config.structuredOutput, schema)
+      }),
+      signal: AbortSignal.timeout(this.config.timeoutMs)
+    })
+
+    if (!response.ok) {
+      throw new Error(`${this.getName()} API error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    const message = data.choices?.[0]?.message?.content
+
+    if (typeof message !== 'string') {
+      throw new Error(`${this.getName()} returned no message content`)
+    }
+
+    return message
+  }
+}
+
+// OpenAI analyzer (external API)
+export class OpenAIAnalyzer extends OpenAICompatibleAnalyzer {
+  constructor(apiKey?: string) {
+    super({
+      baseUrl: 'https://api.openai.com/v1',
+      model: 'gpt-3.5-turbo',
+      apiKey: apiKey || process.env.OPENAI_API_KEY || '',
+      structuredOutput: 'json_object', // gpt-3.5-turbo has JSON mode but not schema enforcement
+      name: 'OpenAI GPT-3.5',
+      modelName: 'openai-gpt-3.5-turbo',
+      modelVersion: '3.5'
+    })
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return !!this.config.apiKey
   }
 }
 
 // Azure Cognitive Services analyzer
+// Languages Text Analytics v3.1 sentiment and key phrases accept, by ISO 639-1 code
+const AZURE_LANGUAGES = new Set([
+  'af', 'am', 'ar', 'as', 'az', 'be', 'bg', 'bn', 'br', 'bs', 'ca', 'cs', 'cy', 'da', 'de', 'el',
+  'en', 'eo', 'es', 'et', 'eu', 'fa', 'fi', 'fr', 'fy', 'ga', 'gd', 'gl', 'gu', 'ha', 'he', 'hi',
+  'hr', 'hu', 'hy', 'id', 'it', 'ja', 'ka', 'kk', 'km', 'kn', 'ko', 'ku', 'ky', 'la', 'lo', 'lt',
+  'lv', 'mg', 'mk', 'ml', 'mn', 'mr', 'ms', 'my', 'ne', 'nl', 'no', 'or', 'pa', 'pl', 'ps', 'pt',
+  'ro', 'ru', 'sa', 'sd', 'si', 'sk', 'sl', 'so', 'sq', 'sr', 'su', 'sv', 'sw', 'ta', 'te', 'th',
+  'tl', 'tr', 'ug', 'uk', 'ur', 'uz', 'vi', 'xh', 'yi'
+])
+
+// Azure's language hint for a detected language; undetermined or unsupported text is sent as English
+function azureLanguageOf(language: string | null): string {
+  if (language === 'zh') return 'zh-hans'
+  return language && AZURE_LANGUAGES.has(language) ? language : 'en'
+}
+
 export class AzureAnalyzer implements SentimentAnalyzer {
+  private static readonly MAX_DOCUMENTS_PER_REQUEST = 10
   private apiKey: string
   private endpoint: string
 
@@ -256,78 +602,115 @@ export class AzureAnalyzer implements SentimentAnalyzer {
   }
 
   async analyze(text: string): Promise<AnalysisResult> {
+    const [result] = await this.analyzeBatch([text])
+    return result
+  }
+
+  async analyzeBatch(texts: string[]): Promise<AnalysisResult[]> {
+    return await this.analyzeDocuments(texts, texts.map(detectLanguage))
+  }
+
+  // `allLanguages` holds each text's detected language, in input order
+  private async analyzeDocuments(texts: string[], allLanguages: Array<string | null>): Promise<AnalysisResult[]> {
     if (!this.apiKey || !this.endpoint) {
       throw new Error('Azure API key or endpoint not configured')
     }
 
+    const results: AnalysisResult[] = []
+
     try {
-      // Sentiment analysis
-      const sentimentResponse = await fetch(`${this.endpoint}/text/analytics/v3.1/sentiment`, {
-        method: 'POST',
-        headers: {
-          'Ocp-Apim-Subscription-Key': this.apiKey,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          documents: [{
-            id: '1',
+      // Text Analytics accepts up to 10 documents per synchronous request
+      for (let offset = 0; offset < texts.length; offset += AzureAnalyzer.MAX_DOCUMENTS_PER_REQUEST) {
+        const languages = allLanguages.slice(offset, offset + AzureAnalyzer.MAX_DOCUMENTS_PER_REQUEST)
+
+        const documents = texts
+          .slice(offset, offset + AzureAnalyzer.MAX_DOCUMENTS_PER_REQUEST)
+          .map((text, index) => ({
+            id: String(index),
             text: text,
-            language: 'en'
-          }]
+            language: azureLanguageOf(languages[index])
+          }))
+
+        // Sentiment analysis
+        const sentimentResponse = await fetch(`${this.endpoint}/text/analytics/v3.1/sentiment`, {
+          method: 'POST',
+          headers: {
+            'Ocp-Apim-Subscription-Key': this.apiKey,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ documents })
         })
-      })
 
-      const sentimentData = await sentimentResponse.json()
-      const sentiment = sentimentData.documents[0].sentiment
-      const confidence = sentimentData.documents[0].confidenceScores
-
-      // Key phrase extraction
-      const keyPhraseResponse = await fetch(`${this.endpoint}/text/analytics/v3.1/keyPhrases`, {
-        method: 'POST',
-        headers: {
-          'Ocp-Apim-Subscription-Key': this.apiKey,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          documents: [{
-            id: '1',
-            text: text,
-            language: 'en'
-          }]
+        const sentimentData = await sentimentResponse.json()
+
+        // Key phrase extraction
+        const keyPhraseResponse = await fetch(`${this.endpoint}/text/analytics/v3.1/keyPhrases`, {
+          method: 'POST',
+          headers: {
+            'Ocp-Apim-Subscription-Key': this.apiKey,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ documents })
         })
-      })
 
-      const keyPhraseData = await keyPhraseResponse.json()
-      const keywords = keyPhraseData.documents[0].keyPhrases
-
-      // Map Azure sentiment to our enum
-      let sentimentLabel: Sentiment
-      switch (sentiment.toLowerCase()) {
-        case 'positive':
-          sentimentLabel = Sentiment.POSITIVE
-          break
-        case 'negative':
-          sentimentLabel = Sentiment.NEGATIVE
-          break
-        default:
-          sentimentLabel = Sentiment.NEUTRAL
+        const keyPhraseData = await keyPhraseResponse.json()
+
+        for (const document of documents) {
+          const sentimentDocument = sentimentData.documents.find((d: { id: string }) => d.id === document.id)
+          const keyPhraseDocument = keyPhraseData.documents.find((d: { id: string }) => d.id === document.id)
+
+          if (!sentimentDocument) {
+            throw new Error(`Azure returned no sentiment for document ${offset + Number(document.id)}`)
+          }
+
+          const sentiment = sentimentDocument.sentiment
+          const confidence = sentimentDocument.confidenceScores
+
+          // Map Azure sentiment to our enum
+          let sentimentLabel: Sentiment
+          switch (sentiment.toLowerCase()) {
+            case 'positive':
+              sentimentLabel = Sentiment.POSITIVE
+              break
+            case 'negative':
+              sentimentLabel = Sentiment.NEGATIVE
+              break
+            default:
+              sentimentLabel = Sentiment.NEUTRAL
+          }
+
+          results.push({
+            sentimentLabel,
+            sentimentScore: confidence[sentiment.toLowerCase()] ?? 0,
+            toxicityScore: 0, // Azure doesn't provide toxicity in basic tier
+            language: languages[Number(document.id)] ?? undefined,
+            keywords: (keyPhraseDocument?.keyPhrases || []).slice(0, 5),
+            modelName: 'azure-text-analytics',
+            modelVersion: '3.1'
+          })
+        }
       }
 
-      return {
-        sentimentLabel,
-        sentimentScore: confidence[sentiment.toLowerCase()],
-        toxicityScore: 0, // Azure doesn't provide toxicity in basic tier
-        language: 'en',
-        keywords: keywords.slice(0, 5),
-        modelName: 'azure-text-analytics',
-        modelVersion: '3.1'
-      }
+      return results
     } catch (error) {
       console.error('Error in Azure analysis:', error)
       throw error
     }
   }
 
+  async analyzeInContext(items: ContextualText[]): Promise<ContextSentimentResult[]> {
+    // The language is the comment's, not the post's or parent's it's read alongside
+    const results = await this.analyzeDocuments(
+      items.map(contextualInput),
+      items.map(item => detectLanguage(item.text))
+    )
+
+    return results.map(result => ({
+      sentimentLabel: result.sentimentLabel,
+      sentimentScore: result.sentimentScore
+    }))
+  }
+
   async isAvailable(): Promise<boolean> {
     return !!(this.apiKey && this.endpoint)
   }
@@ -337,24 +720,85 @@ export class AzureAnalyzer implements SentimentAnalyzer {
   }
 }
 
+// Analyzer choice that runs the ANALYSIS_ENSEMBLE vote; it isn't a registered analyzer itself
+export const ENSEMBLE_ANALYZER_ID = 'ensemble'
+
 // Analysis engine that manages multiple analyzers
+export interface AnalyzerInfo {
+  id: string
+  name: string
+}
+
 export class AnalysisEngine {
-  private analyzers: SentimentAnalyzer[] = []
+  private static instance: AnalysisEngine
+  private analyzers = new Map<string, SentimentAnalyzer>()
+  private availableAnalyzers: Promise<SentimentAnalyzer[]> | null = null
   private preferredAnalyzer: string | null = null
+  private ensemble: EnsembleMember[] = ensembleFromEnv()
+  private reviewAgreement = reviewAgreementFromEnv()
 
   constructor() {
-    // Initialize available analyzers
-    this.analyzers = [
-      new LocalTransformersAnalyzer(),
-      new OpenAIAnalyzer(),
-      new AzureAnalyzer()
-    ]
+    // Built-in providers, configured from the environment; registration order is the default priority
+    this.registerAnalyzer('local', new LocalTransformersAnalyzer())
+    this.registerAnalyzer('openai', new OpenAIAnalyzer())
+    this.registerAnalyzer('azure', new AzureAnalyzer())
+    this.registerAnalyzer('llm', new OpenAICompatibleAnalyzer())
+  }
+
+  // Shared engine so workers reuse loaded models instead of reloading them per job
+  static getInstance(): AnalysisEngine {
+    if (!AnalysisEngine.instance) {
+      AnalysisEngine.instance = new AnalysisEngine()
+    }
+    return AnalysisEngine.instance
+  }
+
+  // Add or replace a provider. The id is what page and user analyzer preferences store.
+  registerAnalyzer(id: string, analyzer: SentimentAnalyzer): void {
+    this.analyzers.set(id, analyzer)
+    this.availableAnalyzers = null
+  }
+
+  hasAnalyzer(id: string): boolean {
+    return this.analyzers.has(id) || (id === ENSEMBLE_ANALYZER_ID && this.ensemble.length >= 2)
+  }
+
+  // Registered providers, plus the ensemble when one is configured.
+  // Availability isn't probed here, since that loads the local models.
+  listAnalyzers(): AnalyzerInfo[] {
+    const analyzers = Array.from(this.analyzers.entries()).map(([id, analyzer]) => ({
+      id,
+      name: analyzer.getName()
+    }))
+
+    if (this.ensemble.length >= 2) {
+      analyzers.push({
+        id: ENSEMBLE_ANALYZER_ID,
+        name: `Ensemble (${this.ensemble.map(member => `${member.analyzer}=${member.weight}`).join(', ')})`
+      })
+    }
+
+    return analyzers
   }
 
   async getAvailableAnalyzers(): Promise<SentimentAnalyzer[]> {
+    // Probe once per engine; an empty result is retried in case a provider comes up later
+    if (!this.availableAnalyzers) {
+      this.availableAnalyzers = this.probeAnalyzers()
+    }
+
+    const available = await this.availableAnalyzers
+    if (available.length === 0) {
+      this.availableAnalyzers = null
+    }
+
+    return available
+  }
+
+  private async probeAnalyzers(): Promise<SentimentAnalyzer[]> {
     const available: SentimentAnalyzer[] = []
     
-    for (const analyzer of this.analyzers) {
+    for (const analyzer of this.analyzers.values()) {
       if (await analyzer.isAvailable()) {
         available.push(analyzer)
       }
@@ -364,24 +808,147 @@ export class AnalysisEngine {
   }
 
   async analyze(text: string, preferredAnalyzer?: string): Promise<AnalysisResult> {
+    const [result] = await this.analyzeBatch([text], preferredAnalyzer)
+    return result
+  }
+
+  // Emoji-only text is scored from the emoji lexicon without calling an analyzer;
+  // for everything else, emojis are blended into the analyzer's sentiment
+  async analyzeBatch(texts: string[], preferredAnalyzer?: string): Promise<AnalysisResult[]> {
+    if (texts.length === 0) return []
+
+    const textIndexes = texts.map((_, index) => index).filter(index => !isEmojiOnly(texts[index]))
+    let textResults: AnalysisResult[] = []
+
+    if (textIndexes.length > 0) {
+      textResults = await this.runAnalyzers(textIndexes.map(index => texts[index]), preferredAnalyzer)
+    }
+
+    const byIndex = new Map(textIndexes.map((textIndex, index) => [textIndex, textResults[index]]))
+
+    return texts.map((text, index) => {
+      const emojis = countEmojis(text)
+      const result = byIndex.get(index)
+
+      if (!result) {
+        return {
+          ...emojiSentiment(emojis),
+          toxicityScore: 0,
+          emojis,
+          keywords: [],
+          modelName: 'emoji-lexicon',
+          modelVersion: '1.0'
+        }
+      }
+
+      return { ...result, ...blendEmojiSentiment(result, emojis), emojis }
+    })
+  }
+
+  // Every available ensemble member when ANALYSIS_ENSEMBLE names several and neither the call
+  // nor setPreferredAnalyzer chose an analyzer, or "ensemble" was chosen; a chosen analyzer runs on its own.
+  private async runAnalyzers(texts: string[], preferredAnalyzer?: string): Promise<AnalysisResult[]> {
+    const preference = preferredAnalyzer || this.preferredAnalyzer
+    const useEnsemble = !preference || preference === ENSEMBLE_ANALYZER_ID
+    const members = useEnsemble ? await this.availableEnsemble() : []
+
+    if (members.length < 2) {
+      const analyzer = members[0]?.analyzer || await this.selectAnalyzer(preferredAnalyzer)
+
+      console.log(`Using analyzer: ${analyzer.getName()} for ${texts.length} texts`)
+      return await this.analyzeValidated(analyzer, texts)
+    }
+
+    console.log(`Using ensemble of ${members.map(({ analyzer }) => analyzer.getName()).join(', ')} for ${texts.length} texts`)
+
+    // A member that fails drops out of the vote instead of failing the batch
+    const outputs = await Promise.all(members.map(async ({ member, analyzer }) => {
+      try {
+        return { member, results: await this.analyzeValidated(analyzer, texts) }
+      } catch (error) {
+        console.error(`Ensemble analyzer ${analyzer.getName()} failed:`, error)
+        return null
+      }
+    }))
+
+    const succeeded = outputs.filter((output): output is NonNullable<typeof output> => output !== null)
+    if (succeeded.length === 0) {
+      throw new Error('All ensemble analyzers failed')
+    }
+
+    return texts.map((_, index) => combineResults(
+      succeeded.map(({ member, results }) => ({ member, result: results[index] })),
+      this.reviewAgreement
+    ))
+  }
+
+  // Every analyzer's output gets the same checks before it's combined or stored.
+  // A result with an unknown label fails the batch and counts against its model.
+  private async analyzeValidated(analyzer: SentimentAnalyzer, texts: string[]): Promise<AnalysisResult[]> {
+    const results = await analyzer.analyzeBatch(texts)
+    const validated: AnalysisResult[] = []
+
+    for (const result of results) {
+      try {
+        validated.push(validateAnalysisResult(result))
+      } catch (error) {
+        await recordRejectedResponse(result.modelName, error instanceof Error ? error.message : String(error))
+        throw error
+      }
+    }
+
+    return validated
+  }
+
+  private async availableEnsemble(): Promise<Array<{ member: EnsembleMember, analyzer: SentimentAnalyzer }>> {
+    if (this.ensemble.length === 0) return []
+
+    const available = await this.getAvailableAnalyzers()
+
+    return this.ensemble.flatMap(member => {
+      const analyzer = this.findAnalyzer(available, member.analyzer)
+      return analyzer ? [{ member, analyzer }] : []
+    })
+  }
+
+  async analyzeInContext(items: ContextualText[], preferredAnalyzer?: string): Promise<ContextSentimentResult[]> {
+    if (items.length === 0) return []
+
+    const analyzer = await this.selectAnalyzer(preferredAnalyzer)
+
+    console.log(`Using analyzer: ${analyzer.getName()} for ${items.length} texts in context`)
+    const results = await analyzer.analyzeInContext(items)
+
+    return results.map(result => validateContextResult(result, analyzer.getName()))
+  }
+
+  // The per-call preference, then the engine-wide one, then the first available analyzer.
+  // A preference that isn't available falls back rather than failing the job; so does
+  // "ensemble" where a single analyzer is needed, e.g. for context sentiment.
+  private async selectAnalyzer(preferredAnalyzer?: string): Promise<SentimentAnalyzer> {
     const available = await this.getAvailableAnalyzers()
     
     if (available.length === 0) {
       throw new Error('No sentiment analyzers available')
     }
 
-    // Use preferred analyzer if specified and available
-    let analyzer = available[0] // Default to first available
-    
-    if (preferredAnalyzer) {
-      const preferred = available.find(a => a.getName().toLowerCase().includes(preferredAnalyzer.toLowerCase()))
-      if (preferred) {
-        analyzer = preferred
-      }
+    const preference = (preferredAnalyzer !== ENSEMBLE_ANALYZER_ID && preferredAnalyzer) || this.preferredAnalyzer
+    if (preference) {
+      const preferred = this.findAnalyzer(available, preference)
+      if (preferred) return preferred
+
+      console.warn(`Preferred analyzer "${preference}" is not available, using ${available[0].getName()}`)
     }
 
-    console.log(`Using analyzer: ${analyzer.getName()}`)
-    return await analyzer.analyze(text)
+    return available[0]
+  }
+
+  // Registered id first; otherwise a case-insensitive match on the analyzer's display name
+  private findAnalyzer(available: SentimentAnalyzer[], idOrName: string): SentimentAnalyzer | undefined {
+    const registered = this.analyzers.get(idOrName)
+    if (registered && available.includes(registered)) return registered
+
+    return available.find(a => a.getName().toLowerCase().includes(idOrName.toLowerCase()))
   }
 
   setPreferredAnalyzer(analyzerName: string): void {
@@ -392,4 +959,3 @@ export class AnalysisEngine {
     return this.preferredAnalyzer
   }
 }
-
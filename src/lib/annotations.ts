@@ -0,0 +1,290 @@
+// src/lib/annotations.ts
+import { PrismaClient, Prisma, Sentiment } from '@prisma/client'
+import { RollupInput, replaceAnalysisInRollup } from './rollup'
+import { parseEmotionScores } from './emotions'
+import { ThreadComment } from './threads'
+
+const prisma = new PrismaClient()
+
+// Human labels are taken as certain
+export const HUMAN_LABEL_CONFIDENCE = 1
+
+// Model confidence or ensemble agreement below this puts an analysis in the review queue
+export const LOW_CONFIDENCE = 0.6
+
+export const MAX_NOTE_LENGTH = 1000
+
+export type LabelSource = 'HUMAN' | 'MODEL'
+
+export type ReviewReason = 'LOW_AGREEMENT' | 'LOW_CONFIDENCE'
+
+export interface AnnotationInput {
+  sentimentLabel: Sentiment
+  isToxic?: boolean | null
+  note?: string | null
+}
+
+export interface EffectiveLabel {
+  sentimentLabel: Sentiment
+  sentimentScore: number
+  toxicityScore: number
+  labelSource: LabelSource
+}
+
+export interface ReviewItem {
+  commentId: string
+  analysisId: string
+  message: string
+  authorName: string | null
+  createdTime: Date
+  pageId: string
+  pageName: string
+  postId: string
+  sentimentLabel: Sentiment
+  sentimentScore: number
+  toxicityScore: number
+  agreementScore: number | null
+  modelName: string
+  reason: ReviewReason
+}
+
+// The label reports should use: the analyst's when there is one, otherwise the model's
+export function effectiveLabel(
+  analysis: { sentimentLabel: Sentiment, sentimentScore: number, toxicityScore: number },
+  annotation?: { sentimentLabel: Sentiment, isToxic: boolean | null } | null
+): EffectiveLabel {
+  if (!annotation) {
+    return {
+      sentimentLabel: analysis.sentimentLabel,
+      sentimentScore: analysis.sentimentScore,
+      toxicityScore: analysis.toxicityScore,
+      labelSource: 'MODEL'
+    }
+  }
+
+  return {
+    sentimentLabel: annotation.sentimentLabel,
+    sentimentScore: HUMAN_LABEL_CONFIDENCE,
+    toxicityScore: annotation.isToxic === null ? analysis.toxicityScore : annotation.isToxic ? 1 : 0,
+    labelSource: 'HUMAN'
+  }
+}
+
+// A thread comment's labels; an analyst's label replaces both the plain and the in-context reading
+export function effectiveThreadSentiment(
+  analysis: {
+    sentimentLabel: Sentiment
+    sentimentScore: number
+    contextSentimentLabel: Sentiment | null
+    contextSentimentScore: number | null
+  } | undefined,
+  annotation?: { sentimentLabel: Sentiment } | null
+): Pick<ThreadComment, 'sentimentLabel' | 'sentimentScore' | 'contextSentimentLabel' | 'contextSentimentScore'> {
+  if (annotation) {
+    return {
+      sentimentLabel: annotation.sentimentLabel,
+      sentimentScore: HUMAN_LABEL_CONFIDENCE,
+      contextSentimentLabel: annotation.sentimentLabel,
+      contextSentimentScore: HUMAN_LABEL_CONFIDENCE
+    }
+  }
+
+  return {
+    sentimentLabel: analysis?.sentimentLabel ?? null,
+    sentimentScore: analysis?.sentimentScore ?? null,
+    contextSentimentLabel: analysis?.contextSentimentLabel ?? null,
+    contextSentimentScore: analysis?.contextSentimentScore ?? null
+  }
+}
+
+// A comment's rollup contribution under its effective label
+export function effectiveRollupInput(
+  comment: { platform: RollupInput['platform'], createdTime: Date, likeCount: number, post: { pageId: string } },
+  analysis: { sentimentLabel: Sentiment, sentimentScore: number, toxicityScore: number, emotions: Prisma.JsonValue },
+  annotation?: { sentimentLabel: Sentiment, isToxic: boolean | null } | null
+): RollupInput {
+  const label = effectiveLabel(analysis, annotation)
+
+  return {
+    pageId: comment.post.pageId,
+    platform: comment.platform,
+    createdTime: comment.createdTime,
+    likeCount: comment.likeCount,
+    sentimentLabel: label.sentimentLabel,
+    sentimentScore: label.sentimentScore,
+    toxicityScore: label.toxicityScore,
+    emotions: parseEmotionScores(analysis.emotions)
+  }
+}
+
+function reviewReason(analysis: { needsReview: boolean, agreementScore: number | null }): ReviewReason {
+  return analysis.needsReview || (analysis.agreementScore !== null && analysis.agreementScore < LOW_CONFIDENCE)
+    ? 'LOW_AGREEMENT'
+    : 'LOW_CONFIDENCE'
+}
+
+function reviewWhere(userId: string, pageId?: string | null): Prisma.AnalysisWhereInput {
+  return {
+    isCurrent: true,
+    comment: {
+      annotation: { is: null },
+      post: {
+        page: {
+          ownerUserId: userId
+        },
+        ...(pageId && { pageId })
+      }
+    },
+    OR: [
+      { needsReview: true },
+      { sentimentScore: { lt: LOW_CONFIDENCE } },
+      { agreementScore: { lt: LOW_CONFIDENCE } }
+    ]
+  }
+}
+
+// Unreviewed current analyses, flagged ensembles and the least agreement first, then the least confident
+export async function getReviewQueue(
+  userId: string,
+  options: { pageId?: string | null, skip: number, take: number }
+): Promise<{ items: ReviewItem[], total: number }> {
+  const where = reviewWhere(userId, options.pageId)
+
+  const [analyses, total] = await Promise.all([
+    prisma.analysis.findMany({
+      where,
+      select: {
+        id: true,
+        sentimentLabel: true,
+        sentimentScore: true,
+        toxicityScore: true,
+        agreementScore: true,
+        needsReview: true,
+        modelName: true,
+        comment: {
+          select: {
+            id: true,
+            message: true,
+            authorName: true,
+            createdTime: true,
+            postId: true,
+            post: {
+              select: {
+                pageId: true,
+                page: {
+                  select: { name: true }
+                }
+              }
+            }
+          }
+        }
+      },
+      orderBy: [
+        { needsReview: 'desc' },
+        { agreementScore: { sort: 'asc', nulls: 'last' } },
+        { sentimentScore: 'asc' }
+      ],
+      skip: options.skip,
+      take: options.take
+    }),
+    prisma.analysis.count({ where })
+  ])
+
+  return {
+    items: analyses.map(analysis => ({
+      commentId: analysis.comment.id,
+      analysisId: analysis.id,
+      message: analysis.comment.message,
+      authorName: analysis.comment.authorName,
+      createdTime: analysis.comment.createdTime,
+      pageId: analysis.comment.post.pageId,
+      pageName: analysis.comment.post.page.name,
+      postId: analysis.comment.postId,
+      sentimentLabel: analysis.sentimentLabel,
+      sentimentScore: analysis.sentimentScore,
+      toxicityScore: analysis.toxicityScore,
+      agreementScore: analysis.agreementScore,
+      modelName: analysis.modelName,
+      reason: reviewReason(analysis)
+    })),
+    total
+  }
+}
+
+const annotatedComment = {
+  post: {
+    select: { pageId: true }
+  },
+  annotation: true,
+  analysis: {
+    where: { isCurrent: true },
+    take: 1
+  }
+} satisfies Prisma.CommentInclude
+
+// Save a comment's annotation and move its rollup contribution to the new effective label
+export async function saveAnnotation(
+  userId: string,
+  commentId: string,
+  input: AnnotationInput
+) {
+  return await prisma.$transaction(async (tx) => {
+    const comment = await tx.comment.findUniqueOrThrow({
+      where: { id: commentId },
+      include: annotatedComment
+    })
+
+    const current = comment.analysis[0]
+
+    const data = {
+      userId,
+      analysisId: current?.id ?? null,
+      sentimentLabel: input.sentimentLabel,
+      isToxic: input.isToxic ?? null,
+      note: input.note || null
+    }
+
+    const annotation = await tx.annotation.upsert({
+      where: { commentId },
+      update: data,
+      create: { commentId, ...data }
+    })
+
+    if (current) {
+      await replaceAnalysisInRollup(
+        tx,
+        effectiveRollupInput(comment, current, comment.annotation),
+        effectiveRollupInput(comment, current, annotation)
+      )
+    }
+
+    return annotation
+  })
+}
+
+// Drop a comment's annotation so reports fall back to the model's label
+export async function deleteAnnotation(annotationId: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const annotation = await tx.annotation.findUniqueOrThrow({
+      where: { id: annotationId }
+    })
+
+    const comment = await tx.comment.findUniqueOrThrow({
+      where: { id: annotation.commentId },
+      include: annotatedComment
+    })
+
+    await tx.annotation.delete({
+      where: { id: annotationId }
+    })
+
+    const current = comment.analysis[0]
+    if (current) {
+      await replaceAnalysisInRollup(
+        tx,
+        effectiveRollupInput(comment, current, annotation),
+        effectiveRollupInput(comment, current)
+      )
+    }
+  })
+}
@@ -0,0 +1,90 @@
+// src/lib/aspects.ts
+import { tokenize } from './keywords'
+
+export const MAX_ASPECTS_PER_USER = 50
+export const MAX_SYNONYMS_PER_ASPECT = 20
+
+export interface AspectDefinition {
+  id: string
+  name: string
+  synonyms: string[]
+}
+
+export interface AspectMention {
+  aspectId: string
+  mention: string // Aspect name or synonym that matched
+  snippet: string // Clause containing the mention
+}
+
+// Clauses split at sentence ends and contrasts, so "great food but slow delivery"
+// scores food and delivery separately
+const CLAUSE_BOUNDARY = /[.!?;\n]+|,?\s+(?:but|however|although|though|whereas)\s+/i
+
+// Trimmed, lowercased, de-duplicated terms from user input; null if it isn't a list of strings
+export function normalizeTerms(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some(term => typeof term !== 'string')) return null
+
+  const terms = (value as string[])
+    .map(term => term.trim().toLowerCase())
+    .filter(term => tokenize(term).length > 0)
+
+  return Array.from(new Set(terms))
+}
+
+// Synonyms are stored as JSON; anything malformed is ignored
+export function toAspectDefinition(aspect: { id: string, name: string, synonyms: unknown }): AspectDefinition {
+  return {
+    id: aspect.id,
+    name: aspect.name,
+    synonyms: normalizeTerms(aspect.synonyms) || []
+  }
+}
+
+// First mention of each aspect in the text
+export function findAspectMentions(text: string, aspects: AspectDefinition[]): AspectMention[] {
+  const clauses = text.split(CLAUSE_BOUNDARY)
+    .map(clause => clause.trim())
+    .filter(clause => clause.length > 0)
+    .map(clause => ({ clause, tokens: tokenize(clause) }))
+
+  const mentions: AspectMention[] = []
+
+  for (const aspect of aspects) {
+    const terms = [aspect.name, ...aspect.synonyms]
+
+    search:
+    for (const { clause, tokens } of clauses) {
+      for (const term of terms) {
+        if (containsTerm(tokens, tokenize(term))) {
+          mentions.push({ aspectId: aspect.id, mention: term, snippet: clause })
+          break search
+        }
+      }
+    }
+  }
+
+  return mentions
+}
+
+// Multi-word terms must appear as a run of words; the last word may be plural
+function containsTerm(tokens: string[], termTokens: string[]): boolean {
+  if (termTokens.length === 0) return false
+
+  for (let start = 0; start + termTokens.length <= tokens.length; start++) {
+    const matches = termTokens.every((termToken, offset) => {
+      const token = tokens[start + offset]
+      if (token === termToken) return true
+      return offset === termTokens.length - 1 && pluralsOf(termToken).includes(token)
+    })
+
+    if (matches) return true
+  }
+
+  return false
+}
+
+function pluralsOf(word: string): string[] {
+  const plurals = [`${word}s`, `${word}es`]
+  if (word.endsWith('y')) plurals.push(`${word.slice(0, -1)}ies`)
+  return plurals
+}
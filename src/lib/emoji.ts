@@ -0,0 +1,128 @@
+// src/lib/emoji.ts
+import { Sentiment } from '@prisma/client'
+import { polarityOf } from './rollup'
+
+export type EmojiCounts = Record<string, number>
+
+// Share of a comment's polarity taken from its emojis when it also has text
+const EMOJI_WEIGHT = 0.3
+
+// Blended polarities closer to zero than this are neutral
+const NEUTRAL_BAND = 0.15
+
+// A pictograph with optional variation selector and skin tone. ©, ® and ™ are pictographs too,
+// but in comments they're text unless written with the emoji variation selector.
+const PICTOGRAPH = '(?:(?![©®™])\\p{Extended_Pictographic}|[©®™]\\uFE0F)[\\uFE0F\\p{Emoji_Modifier}]*'
+
+// Flags (regional-indicator pairs), keycaps such as "1️⃣", and pictographs including
+// zero-width-joiner sequences such as "man facepalming"
+const EMOJI = new RegExp(
+  `\\p{Regional_Indicator}{2}|[#*0-9]\\uFE0F?\\u20E3|${PICTOGRAPH}(?:\\u200D${PICTOGRAPH})*`,
+  'gu'
+)
+
+// Polarity from -1 (negative) to +1 (positive) for common emojis, hand-tuned from the
+// positive/negative shares in the Emoji Sentiment Ranking. Emojis not listed are counted
+// but don't move sentiment.
+const EMOJI_LEXICON: Record<string, number> = {
+  '😀': 0.6, '😃': 0.6, '😄': 0.6, '😁': 0.5, '😆': 0.5, '😅': 0.2, '😂': 0.4, '🤣': 0.4,
+  '🙂': 0.4, '😊': 0.7, '😇': 0.6, '🥰': 0.8, '😍': 0.8, '🤩': 0.8, '😘': 0.7, '😗': 0.5,
+  '☺': 0.6, '😚': 0.6, '😙': 0.5, '😋': 0.6, '😛': 0.4, '😜': 0.4, '🤪': 0.3, '😝': 0.4,
+  '🤗': 0.6, '😎': 0.5, '🥳': 0.8, '😌': 0.4, '😻': 0.7,
+  '❤': 0.8, '🧡': 0.7, '💛': 0.7, '💚': 0.7, '💙': 0.7, '💜': 0.7, '🤍': 0.6, '🖤': 0.3,
+  '💕': 0.7, '💞': 0.7, '💓': 0.7, '💗': 0.7, '💖': 0.8, '💘': 0.6, '💝': 0.7, '♥': 0.7,
+  '👍': 0.6, '👏': 0.6, '🙌': 0.6, '🙏': 0.4, '💪': 0.5, '👌': 0.5, '✌': 0.4, '🤝': 0.5,
+  '🔥': 0.5, '✨': 0.5, '🎉': 0.7, '🎊': 0.7, '🌟': 0.6, '⭐': 0.5, '💯': 0.6, '🏆': 0.6,
+  '✅': 0.4, '🌹': 0.5, '🌸': 0.5,
+  '🤔': -0.1, '😬': -0.3, '😳': -0.1, '😑': -0.2, '😒': -0.5, '🙄': -0.5, '😔': -0.4,
+  '😞': -0.6, '😟': -0.5, '😕': -0.4, '🙁': -0.5, '☹': -0.5, '😣': -0.5, '😖': -0.6,
+  '😫': -0.6, '😩': -0.5, '😢': -0.6, '😭': -0.3, '😤': -0.5, '😠': -0.8, '😡': -0.8,
+  '🤬': -0.9, '🤮': -0.8, '🤢': -0.7, '😷': -0.2, '😰': -0.5, '😨': -0.5, '😱': -0.3,
+  '😓': -0.4, '😪': -0.3, '💔': -0.7, '👎': -0.7, '🤦': -0.5, '🤡': -0.5, '💩': -0.6,
+  '❌': -0.4, '🚫': -0.4
+}
+
+// Skin tones and presentation selectors don't change meaning, so "👍🏽" counts as "👍"
+function normalizeEmoji(emoji: string): string {
+  return emoji.replace(/[\uFE0F\p{Emoji_Modifier}]/gu, '')
+}
+
+const LEXICON = new Map(Object.entries(EMOJI_LEXICON).map(([emoji, polarity]) => [normalizeEmoji(emoji), polarity]))
+
+// Lexicon polarity of an emoji; a joined sequence falls back to its first emoji
+export function emojiPolarityOf(emoji: string): number | null {
+  const normalized = normalizeEmoji(emoji)
+  return LEXICON.get(normalized) ?? LEXICON.get(normalized.split('\u200D')[0]) ?? null
+}
+
+// How often each emoji appears in the text
+export function countEmojis(text: string): EmojiCounts {
+  const counts: EmojiCounts = {}
+
+  for (const match of text.match(EMOJI) || []) {
+    const emoji = normalizeEmoji(match)
+    counts[emoji] = (counts[emoji] || 0) + 1
+  }
+
+  return counts
+}
+
+// Text with emojis and nothing else but whitespace and punctuation
+export function isEmojiOnly(text: string): boolean {
+  const rest = text.replace(EMOJI, '')
+  return rest.length < text.length && !/[\p{L}\p{N}]/u.test(rest)
+}
+
+// Average polarity of the lexicon emojis, weighted by count; null if none are in the lexicon
+export function emojiPolarity(counts: EmojiCounts): number | null {
+  let total = 0
+  let weighted = 0
+
+  for (const [emoji, count] of Object.entries(counts)) {
+    const polarity = emojiPolarityOf(emoji)
+    if (polarity === null) continue
+    total += count
+    weighted += polarity * count
+  }
+
+  return total > 0 ? weighted / total : null
+}
+
+// Sentiment of an emoji-only comment, straight from the lexicon
+export function emojiSentiment(counts: EmojiCounts): { sentimentLabel: Sentiment, sentimentScore: number } {
+  const polarity = emojiPolarity(counts)
+
+  // Only unknown emojis: no evidence either way
+  if (polarity === null) return { sentimentLabel: Sentiment.NEUTRAL, sentimentScore: 0.5 }
+
+  return sentimentFromPolarity(polarity)
+}
+
+// Mix emoji polarity into a text model's result, so "great service 😡" reads less positive.
+// The blended polarity only decides the label; the score stays the model's confidence,
+// lowered as far as the emojis disagree with the text.
+export function blendEmojiSentiment(
+  result: { sentimentLabel: Sentiment, sentimentScore: number },
+  counts: EmojiCounts
+): { sentimentLabel: Sentiment, sentimentScore: number } {
+  const polarity = emojiPolarity(counts)
+  if (polarity === null) return result
+
+  const textPolarity = polarityOf(result.sentimentLabel, result.sentimentScore)
+  const { sentimentLabel } = sentimentFromPolarity((1 - EMOJI_WEIGHT) * textPolarity + EMOJI_WEIGHT * polarity)
+
+  // How strongly the emojis pull against the text's label: away from a positive or negative
+  // label, or in either direction from a neutral one
+  const direction = polarityOf(result.sentimentLabel, 1)
+  const disagreement = direction === 0 ? Math.abs(polarity) : Math.max(0, -direction * polarity)
+  const agreement = 1 - EMOJI_WEIGHT * disagreement
+
+  return { sentimentLabel, sentimentScore: result.sentimentScore * agreement }
+}
+
+// Emoji-only scores follow polarityOf: positive and negative carry the polarity's magnitude
+function sentimentFromPolarity(polarity: number): { sentimentLabel: Sentiment, sentimentScore: number } {
+  if (polarity > NEUTRAL_BAND) return { sentimentLabel: Sentiment.POSITIVE, sentimentScore: polarity }
+  if (polarity < -NEUTRAL_BAND) return { sentimentLabel: Sentiment.NEGATIVE, sentimentScore: -polarity }
+  return { sentimentLabel: Sentiment.NEUTRAL, sentimentScore: 1 - Math.abs(polarity) }
+}
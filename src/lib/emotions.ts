@@ -0,0 +1,87 @@
+// src/lib/emotions.ts
+
+// Ekman's basic emotions; finer-grained classifier labels are folded into these
+export const EMOTIONS = ['anger', 'disgust', 'fear', 'joy', 'sadness', 'surprise'] as const
+
+export type Emotion = typeof EMOTIONS[number]
+
+export type EmotionScores = Record<Emotion, number> // 0-1 per emotion, independent of each other
+
+// A comment's dominant emotion must score at least this much; weaker ones count as no emotion
+export const EMOTION_THRESHOLD = 0.3
+
+// GoEmotions labels grouped by the Ekman mapping published with the dataset
+const GO_EMOTIONS_GROUPS: Record<string, Emotion> = {
+  anger: 'anger',
+  annoyance: 'anger',
+  disapproval: 'anger',
+  disgust: 'disgust',
+  fear: 'fear',
+  nervousness: 'fear',
+  joy: 'joy',
+  amusement: 'joy',
+  approval: 'joy',
+  excitement: 'joy',
+  gratitude: 'joy',
+  love: 'joy',
+  optimism: 'joy',
+  relief: 'joy',
+  pride: 'joy',
+  admiration: 'joy',
+  desire: 'joy',
+  caring: 'joy',
+  sadness: 'sadness',
+  disappointment: 'sadness',
+  embarrassment: 'sadness',
+  grief: 'sadness',
+  remorse: 'sadness',
+  surprise: 'surprise',
+  realization: 'surprise',
+  confusion: 'surprise',
+  curiosity: 'surprise'
+}
+
+export function emptyEmotionScores(): EmotionScores {
+  return { anger: 0, disgust: 0, fear: 0, joy: 0, sadness: 0, surprise: 0 }
+}
+
+// Each emotion takes the highest score among the classifier labels it groups
+export function groupEmotionLabels(labels: Array<{ label: string, score: number }>): EmotionScores {
+  const scores = emptyEmotionScores()
+
+  for (const { label, score } of labels) {
+    const emotion = GO_EMOTIONS_GROUPS[label.toLowerCase()]
+    if (emotion && score > scores[emotion]) {
+      scores[emotion] = score
+    }
+  }
+
+  return scores
+}
+
+// Read scores back from a JSON column; null if they're missing or malformed
+export function parseEmotionScores(value: unknown): EmotionScores | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+
+  const scores = emptyEmotionScores()
+  for (const emotion of EMOTIONS) {
+    const score = (value as Record<string, unknown>)[emotion]
+    if (typeof score !== 'number') return null
+    scores[emotion] = score
+  }
+
+  return scores
+}
+
+export function dominantEmotion(scores: EmotionScores | null): Emotion | null {
+  if (!scores) return null
+
+  let dominant: Emotion | null = null
+  for (const emotion of EMOTIONS) {
+    if (scores[emotion] >= EMOTION_THRESHOLD && (!dominant || scores[emotion] > scores[dominant])) {
+      dominant = emotion
+    }
+  }
+
+  return dominant
+}
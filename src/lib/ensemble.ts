@@ -0,0 +1,99 @@
+// src/lib/ensemble.ts
+import { Sentiment } from '@prisma/client'
+import type { AnalysisResult } from './analysis'
+
+// Comments whose winning label carries less than this share of the vote are flagged for review
+const DEFAULT_REVIEW_AGREEMENT = 0.6
+
+export interface EnsembleMember {
+  analyzer: string // Matched against analyzer names like preferredAnalyzer, e.g. "local", "openai"
+  weight: number
+}
+
+// One analyzer's raw output, kept alongside the combined result (a type alias so it can be stored as JSON)
+export type EnsembleVote = {
+  analyzer: string
+  weight: number
+  sentimentLabel: Sentiment
+  sentimentScore: number
+  toxicityScore: number
+  modelName: string
+}
+
+export interface EnsembleOutcome {
+  agreement: number // Share of the total weight that voted for the winning label, 0-1
+  needsReview: boolean
+  votes: EnsembleVote[]
+}
+
+// Parse ANALYSIS_ENSEMBLE, e.g. "local=1,openai=2,azure=1"; a bare name has weight 1
+export function ensembleFromEnv(value = process.env.ANALYSIS_ENSEMBLE): EnsembleMember[] {
+  const members: EnsembleMember[] = []
+
+  for (const entry of (value || '').split(',')) {
+    const [analyzer, rawWeight] = entry.split('=').map(part => part.trim())
+    const weight = rawWeight === undefined ? 1 : parseFloat(rawWeight)
+    if (analyzer && weight > 0) {
+      members.push({ analyzer, weight })
+    }
+  }
+
+  return members
+}
+
+export function reviewAgreementFromEnv(value = process.env.ANALYSIS_REVIEW_AGREEMENT): number {
+  const threshold = parseFloat(value || '')
+  return threshold >= 0 && threshold <= 1 ? threshold : DEFAULT_REVIEW_AGREEMENT
+}
+
+// Weighted vote over the members' labels. Ties go to the label with the higher
+// weighted confidence; the score is the weighted confidence of the winning voters.
+// Toxicity is the weighted average; other fields come from the heaviest member that has them.
+export function combineResults(
+  members: Array<{ member: EnsembleMember, result: AnalysisResult }>,
+  reviewAgreement: number
+): AnalysisResult & { ensemble: EnsembleOutcome } {
+  const totalWeight = members.reduce((sum, { member }) => sum + member.weight, 0)
+  const tally = new Map<Sentiment, { weight: number, confidence: number }>()
+
+  for (const { member, result } of members) {
+    const entry = tally.get(result.sentimentLabel) || { weight: 0, confidence: 0 }
+    entry.weight += member.weight
+    entry.confidence += member.weight * result.sentimentScore
+    tally.set(result.sentimentLabel, entry)
+  }
+
+  const [sentimentLabel, winner] = Array.from(tally.entries())
+    .sort((a, b) => b[1].weight - a[1].weight || b[1].confidence - a[1].confidence)[0]
+
+  const byWeight = [...members].sort((a, b) => b.member.weight - a.member.weight)
+  const firstWith = <K extends keyof AnalysisResult>(key: K): AnalysisResult[K] | undefined =>
+    byWeight.find(({ result }) => result[key] !== undefined)?.result[key]
+
+  const agreement = winner.weight / totalWeight
+
+  return {
+    sentimentLabel,
+    sentimentScore: winner.confidence / winner.weight,
+    toxicityScore: members.reduce((sum, { member, result }) => sum + member.weight * result.toxicityScore, 0) / totalWeight,
+    emotions: firstWith('emotions'),
+    language: firstWith('language'),
+    keywords: firstWith('keywords'),
+    claims: firstWith('claims'),
+    factualAccuracy: firstWith('factualAccuracy'),
+    modelName: 'ensemble',
+    modelVersion: members.map(({ result }) => result.modelName).join('+'),
+    ensemble: {
+      agreement,
+      needsReview: agreement < reviewAgreement,
+      votes: members.map(({ member, result }) => ({
+        analyzer: member.analyzer,
+        weight: member.weight,
+        sentimentLabel: result.sentimentLabel,
+        sentimentScore: result.sentimentScore,
+        toxicityScore: result.toxicityScore,
+        modelName: result.modelName
+      }))
+    }
+  }
+}
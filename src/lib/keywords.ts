@@ -0,0 +1,242 @@
+// src/lib/keywords.ts
+
+export interface KeywordExtractor {
+  extract(text: string, language?: string | null): string[]
+  getName(): string
+}
+
+const MAX_KEYWORDS = 8
+const MAX_PHRASE_WORDS = 3
+
+// Unsegmented scripts (e.g. Japanese) come through as one long "word"; those aren't useful keywords
+const MAX_WORD_LENGTH = 30
+
+const HASHTAG = /#[\p{L}\p{N}_]+/gu
+const MENTION = /@[\p{L}\p{N}_.]*[\p{L}\p{N}_]/gu
+const URL = /https?:\/\/\S+/g
+
+// Phrases never span punctuation, so "slow, cold delivery" doesn't yield "slow cold"
+const PHRASE_BOUNDARY = /[.,!?;:()[\]{}"“”«»…\n]+/
+
+// Function words per language; tokenize keeps apostrophes inside words, so contractions are listed with them
+const STOP_WORDS: Record<string, Set<string>> = {
+  en: new Set([
+    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from',
+    'about', 'into', 'over', 'after', 'before', 'than', 'then', 'so', 'if', 'as', 'up', 'out', 'off',
+    'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'have', 'has', 'had', 'do', 'does', 'did',
+    'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'shall', 'get', 'got', 'just',
+    'this', 'that', 'these', 'those', 'there', 'here', 'what', 'which', 'who', 'whom', 'when', 'where',
+    'why', 'how', 'all', 'any', 'some', 'more', 'most', 'very', 'too', 'also', 'not', 'no', 'yes', 'only',
+    'i', 'me', 'my', 'we', 'our', 'you', 'your', 'he', 'him', 'his', 'she', 'her', 'it', 'its', 'they',
+    'them', 'their', 'one', 'really', 'still', 'even', 'much', 'many', 'again', 'ever', 'never',
+    "don't", "doesn't", "didn't", "can't", "won't", "isn't", "aren't", "wasn't", "i'm", "i've", "i'd",
+    "you're", 'let'
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'pero', 'de', 'del', 'al', 'a', 'en',
+    'con', 'por', 'para', 'sin', 'sobre', 'que', 'como', 'cuando', 'donde', 'es', 'son', 'era', 'fue',
+    'ser', 'estar', 'está', 'están', 'esta', 'este', 'esto', 'estos', 'estas', 'ese', 'esa', 'eso', 'hay',
+    'ha', 'han', 'he', 'muy', 'más', 'mas', 'ya', 'no', 'sí', 'si', 'se', 'su', 'sus', 'lo', 'le', 'les',
+    'me', 'mi', 'mis', 'te', 'tu', 'tus', 'yo', 'él', 'ella', 'nos', 'nosotros', 'ellos', 'también', 'todo',
+    'todos', 'porque', 'qué', 'cómo'
+  ]),
+  fr: new Set([
+    'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'mais', 'à', 'au', 'aux', 'en', 'dans',
+    'sur', 'pour', 'par', 'avec', 'sans', 'que', 'qui', 'quoi', 'comme', 'est', 'sont', 'était', 'être',
+    'été', 'ai', 'as', 'a', 'avons', 'ont', 'avoir', 'ce', 'cette', 'ces', 'cet', 'il', 'elle', 'ils',
+    'elles', 'je', 'tu', 'nous', 'vous', 'on', 'me', 'te', 'se', 'mon', 'ma', 'mes', 'ton', 'ta', 'tes',
+    'son', 'sa', 'ses', 'leur', 'leurs', 'ne', 'pas', 'plus', 'très', 'tres', 'aussi', 'tout', 'tous',
+    'ça', 'ca', 'y'
+  ]),
+  de: new Set([
+    'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'und', 'oder',
+    'aber', 'in', 'im', 'an', 'am', 'auf', 'aus', 'bei', 'mit', 'nach', 'von', 'vom', 'zu', 'zum', 'zur',
+    'für', 'über', 'ist', 'sind', 'war', 'waren', 'sein', 'hat', 'haben', 'hatte', 'wird', 'werden',
+    'ich', 'du', 'er', 'sie', 'es', 'wir', 'ihr', 'mein', 'dein', 'sich', 'nicht', 'kein', 'keine', 'sehr',
+    'auch', 'noch', 'schon', 'nur', 'so', 'wie', 'was', 'wer', 'wenn', 'dass', 'als', 'mal', 'man', 'ja'
+  ]),
+  it: new Set([
+    'il', 'lo', 'la', 'i', 'gli', 'le', 'un', 'uno', 'una', 'e', 'o', 'ma', 'di', 'del', 'della', 'dei',
+    'delle', 'a', 'al', 'alla', 'da', 'in', 'nel', 'nella', 'con', 'su', 'per', 'tra', 'che', 'chi',
+    'come', 'è', 'sono', 'era', 'essere', 'ho', 'hai', 'ha', 'hanno', 'questo', 'questa', 'quello',
+    'quella', 'io', 'tu', 'lui', 'lei', 'noi', 'voi', 'loro', 'mi', 'ti', 'si', 'ci', 'non', 'più', 'molto',
+    'anche', 'già', 'tutto', 'tutti', 'perché'
+  ]),
+  pt: new Set([
+    'o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'e', 'ou', 'mas', 'de', 'do', 'da', 'dos', 'das',
+    'em', 'no', 'na', 'nos', 'nas', 'com', 'por', 'para', 'sem', 'que', 'como', 'quando', 'é', 'são', 'foi',
+    'ser', 'estar', 'está', 'tem', 'têm', 'ter', 'este', 'esta', 'isso', 'isto', 'esse', 'essa', 'eu',
+    'você', 'voce', 'ele', 'ela', 'nós', 'eles', 'elas', 'me', 'se', 'seu', 'sua', 'meu', 'minha', 'não',
+    'nao', 'muito', 'mais', 'também', 'já', 'tudo', 'todos', 'porque'
+  ]),
+  nl: new Set([
+    'de', 'het', 'een', 'en', 'of', 'maar', 'in', 'op', 'aan', 'bij', 'met', 'van', 'voor', 'naar', 'uit',
+    'over', 'om', 'te', 'tot', 'is', 'zijn', 'was', 'waren', 'heb', 'hebben', 'heeft', 'had', 'wordt',
+    'worden', 'ik', 'je', 'jij', 'u', 'hij', 'zij', 'ze', 'wij', 'we', 'mijn', 'jouw', 'haar',
+    'niet', 'geen', 'heel', 'erg', 'ook', 'nog', 'al', 'wel', 'dat', 'dit', 'die', 'deze', 'wat', 'wie',
+    'als', 'dan', 'er', 'zo'
+  ])
+}
+
+// Irregular English plurals the suffix rules below would get wrong
+const IRREGULAR_LEMMAS: Record<string, string> = {
+  children: 'child',
+  people: 'person',
+  men: 'man',
+  women: 'woman',
+  feet: 'foot',
+  teeth: 'tooth',
+  mice: 'mouse',
+  geese: 'goose'
+}
+
+// Elided articles and pronouns in French, Catalan and Italian, e.g. "l'entrega", "j'ai", "dell'app"
+const ELISION = /(^|[^\p{L}])(l|d|j|m|n|s|t|c|qu|jusqu|lorsqu|puisqu|dell|all|dall|nell|sull|un)'(?=\p{L})/gu
+
+// Lowercased words with punctuation stripped; shared by keyword and aspect extraction.
+// Apostrophes split off elided articles and drop English possessives, and are otherwise
+// kept inside words, so "aujourd'hui" and "don't" stay whole.
+export function tokenize(text: string): string[] {
+  return text.toLowerCase()
+    .replace(/[’‘`]/g, "'")
+    .replace(ELISION, '$1$2 ')
+    .replace(/[^\p{L}\p{N}\s']/gu, '')
+    .split(/\s+/)
+    .map(word => word.replace(/^'+|'+$/g, '').replace(/'s$/, ''))
+    .filter(word => word.length > 0)
+}
+
+// Light English lemmatiser: folds plural nouns onto their singular so "prices" and "price" count together.
+// Verb forms are left alone; stripping -ing/-ed without a dictionary mangles too many words.
+export function lemmatize(word: string, language?: string | null): string {
+  if (language && language !== 'en') return word
+
+  if (IRREGULAR_LEMMAS[word]) return IRREGULAR_LEMMAS[word]
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (word.length > 4 && /(?:ches|shes|sses|xes|zes)$/.test(word)) return word.slice(0, -2)
+  if (word.length > 3 && word.endsWith('s') && !/(?:ss|us|is|ous)$/.test(word)) return word.slice(0, -1)
+
+  return word
+}
+
+// Stop list for a detected language; undetermined text uses the English list
+export function stopWordsFor(language?: string | null): Set<string> {
+  return STOP_WORDS[language || 'en'] || new Set()
+}
+
+// Frequent single words, the original extraction behaviour
+export class UnigramKeywordExtractor implements KeywordExtractor {
+  extract(text: string, language?: string | null): string[] {
+    const stopWords = stopWordsFor(language)
+
+    const words = tokenize(text.replace(URL, ' '))
+      .filter(word => isCandidateWord(word, stopWords))
+      .map(word => lemmatize(word, language))
+
+    return rankByFrequency(words).slice(0, MAX_KEYWORDS)
+  }
+
+  getName(): string {
+    return 'unigrams'
+  }
+}
+
+// Hashtags and mentions, then phrases of up to three content words. A phrase is a run of
+// words between stop words and punctuation; longer phrases win ties, and words already
+// covered by a chosen phrase aren't listed again on their own.
+export class PhraseKeywordExtractor implements KeywordExtractor {
+  extract(text: string, language?: string | null): string[] {
+    const stopWords = stopWordsFor(language)
+
+    const tags = Array.from(new Set([
+      ...(text.match(HASHTAG) || []),
+      ...(text.match(MENTION) || [])
+    ].map(tag => tag.toLowerCase())))
+
+    const body = text.replace(URL, ' ').replace(HASHTAG, ' ').replace(MENTION, ' ')
+
+    const phrases: string[] = []
+    for (const segment of body.split(PHRASE_BOUNDARY)) {
+      let run: string[] = []
+
+      for (const word of [...tokenize(segment), '']) {
+        if (word && isCandidateWord(word, stopWords)) {
+          run.push(lemmatize(word, language))
+          continue
+        }
+        phrases.push(...ngramsOf(run))
+        run = []
+      }
+    }
+
+    const covered = new Set<string>()
+    const keywords = [...tags]
+
+    const ranked = rankByFrequency(phrases, phrase => phrase.split(' ').length)
+    for (const phrase of ranked) {
+      if (keywords.length >= MAX_KEYWORDS) break
+
+      const words = phrase.split(' ')
+      if (words.every(word => covered.has(word))) continue
+
+      keywords.push(phrase)
+      words.forEach(word => covered.add(word))
+    }
+
+    return keywords.slice(0, MAX_KEYWORDS)
+  }
+
+  getName(): string {
+    return 'phrases'
+  }
+}
+
+const extractors = new Map<string, KeywordExtractor>([
+  ['phrases', new PhraseKeywordExtractor()],
+  ['unigrams', new UnigramKeywordExtractor()]
+])
+
+export function registerKeywordExtractor(extractor: KeywordExtractor): void {
+  extractors.set(extractor.getName(), extractor)
+}
+
+// Extractor named by KEYWORD_EXTRACTOR, falling back to phrases
+export function getKeywordExtractor(name = process.env.KEYWORD_EXTRACTOR): KeywordExtractor {
+  return (name && extractors.get(name)) || extractors.get('phrases')!
+}
+
+// Corpus-level TF-IDF with smoothed IDF: a term's total count, discounted when it
+// appears in most documents (e.g. a brand name under every post)
+export function tfIdfScore(termCount: number, documentFrequency: number, totalDocuments: number): number {
+  return termCount * (Math.log((1 + totalDocuments) / (1 + documentFrequency)) + 1)
+}
+
+function isCandidateWord(word: string, stopWords: Set<string>): boolean {
+  return word.length > 2 &&
+    word.length <= MAX_WORD_LENGTH &&
+    !/^\p{N}+$/u.test(word) &&
+    !stopWords.has(word)
+}
+
+// Every 1..MAX_PHRASE_WORDS word n-gram within a run of content words
+function ngramsOf(words: string[]): string[] {
+  const ngrams: string[] = []
+
+  for (let size = 1; size <= MAX_PHRASE_WORDS; size++) {
+    for (let start = 0; start + size <= words.length; start++) {
+      ngrams.push(words.slice(start, start + size).join(' '))
+    }
+  }
+
+  return ngrams
+}
+
+// Most frequent first; ties broken by the optional weight, then first appearance
+function rankByFrequency(terms: string[], weightOf: (term: string) => number = () => 0): string[] {
+  const counts = new Map<string, number>()
+  terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1))
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || weightOf(b[0]) - weightOf(a[0]))
+    .map(([term]) => term)
+}
@@ -0,0 +1,31 @@
+// src/lib/language.ts
+import { detectAll, langName } from 'tinyld'
+
+// Short Latin-script text ("lol", "great") doesn't carry enough n-grams to tell languages apart
+const MIN_LATIN_LETTERS = 10
+
+// Top candidates below this accuracy are treated as undetermined
+const MIN_DETECTION_ACCURACY = 0.1
+
+const LETTER = /\p{L}/gu
+const NON_LATIN_LETTER = /(?!\p{Script=Latin})\p{L}/u
+
+// ISO 639-1 code of the text's language, or null when it can't be determined reliably
+export function detectLanguage(text: string): string | null {
+  const letterCount = text.match(LETTER)?.length || 0
+  if (letterCount === 0) return null
+
+  // Non-Latin scripts narrow the candidates enough to detect even short text
+  if (letterCount < MIN_LATIN_LETTERS && !NON_LATIN_LETTER.test(text)) return null
+
+  const [best] = detectAll(text)
+  if (!best || best.accuracy < MIN_DETECTION_ACCURACY) return null
+
+  return best.lang
+}
+
+// English name for a language code, e.g. "es" -> "Spanish"
+export function languageName(code: string | null): string {
+  if (!code) return 'Unknown'
+  return langName(code) || code
+}
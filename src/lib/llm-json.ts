@@ -0,0 +1,49 @@
+// src/lib/llm-json.ts
+
+// Chat models asked for JSON still wrap it in code fences, add a sentence before or after it,
+// or slip into JavaScript/Python syntax. Each candidate is tried as-is and then repaired.
+export function parseModelJson(content: string): Record<string, unknown> {
+  for (const candidate of jsonCandidates(content)) {
+    for (const text of [candidate, repairJson(candidate)]) {
+      try {
+        const value = JSON.parse(text)
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+          return value as Record<string, unknown>
+        }
+      } catch {
+        // Try the next candidate
+      }
+    }
+  }
+
+  throw new Error(`Model response is not a JSON object: ${content.slice(0, 200)}`)
+}
+
+// The whole reply, then each fenced block, then the outermost braces
+function jsonCandidates(content: string): string[] {
+  const candidates = [content.trim()]
+
+  for (const match of content.matchAll(/```(?:json|JSON)?\s*([\s\S]*?)```/g)) {
+    candidates.push(match[1].trim())
+  }
+
+  const start = content.indexOf('{')
+  const end = content.lastIndexOf('}')
+  if (start !== -1 && end > start) {
+    candidates.push(content.slice(start, end + 1))
+  }
+
+  return candidates
+}
+
+// Only reached when the text didn't parse, so these rewrites can be approximate
+function repairJson(text: string): string {
+  return text
+    .replace(/[“”]/g, '"')
+    .replace(/([{[,:]\s*)'([^'\\]*)'/g, '$1"$2"') // Single-quoted keys and values
+    .replace(/,\s*([}\]])/g, '$1') // Trailing commas
+    .replace(/([{,]\s*)([A-Za-z_]\w*)\s*:/g, '$1"$2":') // Unquoted keys
+    .replace(/(:\s*)True\b/g, '$1true')
+    .replace(/(:\s*)False\b/g, '$1false')
+    .replace(/(:\s*)None\b/g, '$1null')
+}
@@ -53,6 +53,7 @@ export interface FacebookComment {
   message: string
   created_time: string
   like_count: number
+  comment_count?: number // Replies to this comment
   parent?: {
     id: string
   }
@@ -78,6 +79,15 @@ export interface PaginatedResponse<T> {
   }
 }
 
+export interface PaginationOptions<T> {
+  maxItems?: number
+  // Lists are newest first: items after `until` are skipped and paging stops
+  // at the first item created before `since`
+  since?: Date
+  until?: Date
+  createdTimeOf?: (item: T) => string
+}
+
 // Rate limiter class
 class RateLimiter {
   private requests: number[] = []
@@ -142,9 +152,15 @@ export class TokenEncryption {
   }
 }
 
+// Point META_GRAPH_API_URL at the mock server (npm run mock:graph) to develop without Meta credentials
+export const GRAPH_API_URL = (process.env.META_GRAPH_API_URL || 'https://graph.facebook.com/v18.0').replace(/\/+$/, '')
+
+// Most ids the Graph API accepts in one ?ids= lookup
+const MULTI_ID_LIMIT = 50
+
 // Main Meta API client
 export class MetaGraphAPI {
-  private static readonly BASE_URL = 'https://graph.facebook.com/v18.0'
+  private static readonly BASE_URL = GRAPH_API_URL
   private rateLimiter = new RateLimiter()
 
   constructor(private accessToken: string) {}
@@ -201,6 +217,73 @@ export class MetaGraphAPI {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
 
+  // Look up several objects by id, MULTI_ID_LIMIT per request
+  private async getObjects<T extends { id: string }>(ids: string[], fields: string): Promise<T[]> {
+    const objects: T[] = []
+
+    for (let offset = 0; offset < ids.length; offset += MULTI_ID_LIMIT) {
+      const response = await this.makeRequest<Record<string, T>>('/', {
+        ids: ids.slice(offset, offset + MULTI_ID_LIMIT).join(','),
+        fields
+      })
+      objects.push(...Object.values(response))
+    }
+
+    return objects
+  }
+
+  // Yield each page of a list endpoint, following paging cursors until the list,
+  // maxItems or the `since` date runs out
+  async *paginate<T>(
+    endpoint: string,
+    params: Record<string, string | number | boolean> = {},
+    options: PaginationOptions<T> = {}
+  ): AsyncGenerator<T[]> {
+    const { maxItems = Infinity, since, until, createdTimeOf } = options
+    let pageParams = params
+    let itemCount = 0
+
+    while (itemCount < maxItems) {
+      const response = await this.makeRequest<PaginatedResponse<T>>(endpoint, pageParams)
+
+      let items = response.data
+      let reachedSince = false
+
+      if (createdTimeOf && (since || until)) {
+        items = []
+        for (const item of response.data) {
+          const createdTime = new Date(createdTimeOf(item))
+          if (since && createdTime < since) {
+            reachedSince = true
+            break
+          }
+          if (!until || createdTime <= until) {
+            items.push(item)
+          }
+        }
+      }
+
+      items = items.slice(0, maxItems - itemCount)
+      itemCount += items.length
+
+      if (items.length > 0) {
+        yield items
+      }
+
+      if (reachedSince || !response.paging?.next) return
+
+      const after = response.paging.cursors?.after
+      if (after) {
+        pageParams = { ...params, after }
+      } else {
+        // Time-based paging (e.g. posts with since/until) only provides a next URL
+        const nextParams = Object.fromEntries(new URL(response.paging.next).searchParams)
+        delete nextParams.access_token
+        pageParams = nextParams
+      }
+    }
+  }
+
   // Token management
   async exchangeForLongLivedToken(shortLivedToken: string): Promise<string> {
     const response = await this.makeRequest<{access_token: string}>('/oauth/access_token', {
@@ -221,65 +304,71 @@ export class MetaGraphAPI {
     return response.data
   }
 
-  // Facebook Pages API
   async getPagePosts(
     pageId: string,
     pageToken: string,
     since?: string,
     until?: string,
-    limit: number = 25
+    limit: number = 25,
+    maxItems: number = 1000
   ): Promise<FacebookPost[]> {
     const api = new MetaGraphAPI(pageToken)
     const posts: FacebookPost[] = []
-    let nextUrl: string | undefined
-
-    do {
-      const params: Record<string, string | number> = {
-        fields: 'id,message,created_time,permalink_url,likes.summary(true),comments.summary(true)',
-        limit
-      }
-
-      if (since) params.since = since
-      if (until) params.until = until
+    const params: Record<string, string | number> = {
+      fields: 'id,message,created_time,permalink_url,likes.summary(true),comments.summary(true)',
+      limit
+    }
 
-      const response = await api.makeRequest<PaginatedResponse<FacebookPost>>(
-        `/${pageId}/posts`,
-        params
-      )
+    if (since) params.since = since
+    if (until) params.until = until
 
-      posts.push(...response.data)
-      nextUrl = response.paging?.next
-    } while (nextUrl && posts.length < 1000) // Safety limit
+    for await (const page of api.paginate<FacebookPost>(`/${pageId}/posts`, params, {
+      maxItems,
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined,
+      createdTimeOf: post => post.created_time
+    })) {
+      posts.push(...page)
+    }
 
     return posts
   }
 
+  // Comments newest first; with `since`, paging stops once older comments are reached
   async getPostComments(
     postId: string,
     pageToken: string,
-    limit: number = 100
+    since?: Date,
+    limit: number = 100,
+    maxItems: number = 10000
   ): Promise<FacebookComment[]> {
     const api = new MetaGraphAPI(pageToken)
     const comments: FacebookComment[] = []
-    let nextUrl: string | undefined
-
-    do {
-      const response = await api.makeRequest<PaginatedResponse<FacebookComment>>(
-        `/${postId}/comments`,
-        {
-          fields: 'id,from,message,created_time,like_count,parent',
-          filter: 'stream',
-          limit
-        }
-      )
 
-      comments.push(...response.data)
-      nextUrl = response.paging?.next
-    } while (nextUrl && comments.length < 10000) // Safety limit
+    for await (const page of api.paginate<FacebookComment>(
+      `/${postId}/comments`,
+      {
+        fields: 'id,from,message,created_time,like_count,comment_count,parent',
+        filter: 'stream',
+        order: 'reverse_chronological',
+        limit
+      },
+      { maxItems, since, createdTimeOf: comment => comment.created_time }
+    )) {
+      comments.push(...page)
+    }
 
     return comments
   }
 
+  // Current comment counts for Facebook posts, keyed by post id
+  async getPostCommentCounts(postIds: string[], pageToken: string): Promise<Map<string, number>> {
+    const api = new MetaGraphAPI(pageToken)
+    const posts = await api.getObjects<FacebookPost>(postIds, 'comments.summary(true)')
+
+    return new Map(posts.map(post => [post.id, post.comments?.summary?.total_count || 0]))
+  }
+
   // Instagram Business API
   async getConnectedInstagramAccount(pageId: string, pageToken: string): Promise<InstagramAccount | null> {
     try {
@@ -303,58 +392,88 @@ export class MetaGraphAPI {
     pageToken: string,
     since?: string,
     until?: string,
-    limit: number = 25
+    limit: number = 25,
+    maxItems: number = 1000
   ): Promise<InstagramPost[]> {
     const api = new MetaGraphAPI(pageToken)
     const posts: InstagramPost[] = []
-    let nextUrl: string | undefined
-
-    do {
-      const params: Record<string, string | number> = {
-        fields: 'id,caption,timestamp,permalink,like_count,comments_count',
-        limit
-      }
-
-      if (since) params.since = since
-      if (until) params.until = until
+    const params: Record<string, string | number> = {
+      fields: 'id,caption,timestamp,permalink,like_count,comments_count',
+      limit
+    }
 
-      const response = await api.makeRequest<PaginatedResponse<InstagramPost>>(
-        `/${igUserId}/media`,
-        params
-      )
+    if (since) params.since = since
+    if (until) params.until = until
 
-      posts.push(...response.data)
-      nextUrl = response.paging?.next
-    } while (nextUrl && posts.length < 1000) // Safety limit
+    for await (const page of api.paginate<InstagramPost>(`/${igUserId}/media`, params, {
+      maxItems,
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined,
+      createdTimeOf: post => post.timestamp
+    })) {
+      posts.push(...page)
+    }
 
     return posts
   }
 
+  // Instagram returns comments newest first; with `since`, paging stops once older comments are reached
   async getInstagramComments(
     mediaId: string,
     pageToken: string,
-    limit: number = 100
+    since?: Date,
+    limit: number = 100,
+    maxItems: number = 10000
   ): Promise<InstagramComment[]> {
     const api = new MetaGraphAPI(pageToken)
     const comments: InstagramComment[] = []
-    let nextUrl: string | undefined
-
-    do {
-      const response = await api.makeRequest<PaginatedResponse<InstagramComment>>(
-        `/${mediaId}/comments`,
-        {
-          fields: 'id,text,timestamp,username,like_count',
-          limit
-        }
-      )
 
-      comments.push(...response.data)
-      nextUrl = response.paging?.next
-    } while (nextUrl && comments.length < 10000) // Safety limit
+    for await (const page of api.paginate<InstagramComment>(
+      `/${mediaId}/comments`,
+      {
+        fields: 'id,text,timestamp,username,like_count',
+        limit
+      },
+      { maxItems, since, createdTimeOf: comment => comment.timestamp }
+    )) {
+      comments.push(...page)
+    }
 
     return comments
   }
 
+  // Current comment counts for Instagram media, keyed by media id
+  async getInstagramCommentCounts(mediaIds: string[], pageToken: string): Promise<Map<string, number>> {
+    const api = new MetaGraphAPI(pageToken)
+    const media = await api.getObjects<InstagramPost>(mediaIds, 'comments_count')
+
+    return new Map(media.map(item => [item.id, item.comments_count || 0]))
+  }
+
+  // Instagram only returns top-level comments from the media edge; replies come from each comment
+  async getInstagramReplies(
+    commentId: string,
+    pageToken: string,
+    limit: number = 100,
+    maxItems: number = 10000
+  ): Promise<InstagramComment[]> {
+    const api = new MetaGraphAPI(pageToken)
+    const replies: InstagramComment[] = []
+
+    for await (const page of api.paginate<InstagramComment>(
+      `/${commentId}/replies`,
+      {
+        fields: 'id,text,timestamp,username,like_count',
+        limit
+      },
+      { maxItems }
+    )) {
+      replies.push(...page)
+    }
+
+    return replies
+  }
+
   // Token validation
   async validateToken(): Promise<boolean> {
     try {
@@ -0,0 +1,58 @@
+// src/lib/post-tone.ts
+import { Sentiment } from '@prisma/client'
+import { polarityOf } from './rollup'
+
+interface SentimentReading {
+  sentimentLabel: Sentiment
+  sentimentScore: number
+}
+
+// How a post's own tone compares with the comments it drew
+export interface ToneComparison {
+  postSentiment: Sentiment | null
+  postPolarity: number | null
+  audienceSentiment: Sentiment | null
+  audiencePolarity: number | null
+  analyzedComments: number
+  toneGap: number | null // Audience minus post polarity; negative when replies are harsher than the post
+  mismatch: boolean // A positive post drew a negative reaction, or the other way round
+}
+
+export function compareTone(
+  post: SentimentReading | null | undefined,
+  comments: SentimentReading[]
+): ToneComparison {
+  const postPolarity = post ? polarityOf(post.sentimentLabel, post.sentimentScore) : null
+
+  const counts = { positive: 0, negative: 0, neutral: 0 }
+  let polaritySum = 0
+
+  for (const comment of comments) {
+    if (comment.sentimentLabel === Sentiment.POSITIVE) counts.positive++
+    else if (comment.sentimentLabel === Sentiment.NEGATIVE) counts.negative++
+    else counts.neutral++
+    polaritySum += polarityOf(comment.sentimentLabel, comment.sentimentScore)
+  }
+
+  let audienceSentiment: Sentiment | null = null
+  if (comments.length > 0) {
+    if (counts.positive > counts.negative && counts.positive > counts.neutral) audienceSentiment = Sentiment.POSITIVE
+    else if (counts.negative > counts.positive && counts.negative > counts.neutral) audienceSentiment = Sentiment.NEGATIVE
+    else audienceSentiment = Sentiment.NEUTRAL
+  }
+
+  const audiencePolarity = comments.length > 0 ? polaritySum / comments.length : null
+
+  return {
+    postSentiment: post?.sentimentLabel ?? null,
+    postPolarity,
+    audienceSentiment,
+    audiencePolarity,
+    analyzedComments: comments.length,
+    toneGap: postPolarity !== null && audiencePolarity !== null ? audiencePolarity - postPolarity : null,
+    mismatch: !!post && audienceSentiment !== null &&
+      post.sentimentLabel !== Sentiment.NEUTRAL &&
+      audienceSentiment !== Sentiment.NEUTRAL &&
+      post.sentimentLabel !== audienceSentiment
+  }
+}
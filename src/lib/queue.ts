@@ -1,12 +1,18 @@
 // src/lib/queue.ts
-import { PrismaClient, JobType, JobStatus } from '@prisma/client'
+import os from 'os'
+import crypto from 'crypto'
+import { PrismaClient, Prisma, JobType, JobStatus } from '@prisma/client'
 
 const prisma = new PrismaClient()
 
-interface JobData {
+export interface JobData {
   postId?: string
   commentId?: string
+  commentIds?: string[]
+  postIds?: string[]
   pageId?: string
+  userId?: string
+  scheduleId?: string // Set on jobs enqueued by a SyncSchedule
   dateRange?: {
     since: string
     until: string
@@ -15,10 +21,62 @@ interface JobData {
   [key: string]: string | number | boolean | object | undefined
 }
 
+export interface QueuedJob {
+  id: string
+  type: JobType
+  payload: JobData
+  attempts: number
+  maxAttempts: number
+}
+
+export interface ProcessingOptions {
+  pollIntervalMs?: number
+  concurrency?: Partial<Record<JobType, number>>
+}
+
+// Jobs running at once per type, per worker process. Model-bound and
+// maintenance jobs stay serial; network-bound fetches can overlap.
+const DEFAULT_CONCURRENCY: Record<JobType, number> = {
+  [JobType.FETCH_POSTS]: 2,
+  [JobType.FETCH_COMMENTS]: 4,
+  [JobType.ANALYZE_SENTIMENT]: 2,
+  [JobType.ANALYZE_SENTIMENT_BATCH]: 1,
+  [JobType.ANALYZE_POST_SENTIMENT]: 1,
+  [JobType.CLEANUP_DATA]: 1,
+  [JobType.REFRESH_TOKENS]: 1,
+  [JobType.REBUILD_ROLLUPS]: 1,
+  [JobType.REANALYZE_COMMENTS]: 1
+}
+
+const LEASE_DURATION_MS = 60000 // 1 minute
+const HEARTBEAT_INTERVAL_MS = 20000 // Renew well before the lease runs out
+const SCHEDULE_CHECK_INTERVAL_MS = 30000 // Shortest schedule interval is 15 minutes
+
+// Parse JOB_CONCURRENCY, e.g. "FETCH_COMMENTS=8,ANALYZE_SENTIMENT_BATCH=2"
+function concurrencyFromEnv(): Partial<Record<JobType, number>> {
+  const overrides: Partial<Record<JobType, number>> = {}
+
+  for (const entry of (process.env.JOB_CONCURRENCY || '').split(',')) {
+    const [type, value] = entry.split('=').map(part => part.trim())
+    const limit = parseInt(value, 10)
+    if (Object.values(JobType).includes(type as JobType) && limit >= 0) {
+      overrides[type as JobType] = limit
+    }
+  }
+
+  return overrides
+}
+
 export class JobQueue {
   private static instance: JobQueue
   private isProcessing = false
   private processingInterval: NodeJS.Timeout | null = null
+  private heartbeatInterval: NodeJS.Timeout | null = null
+  private isTicking = false
+  private lastScheduleCheck = 0
+  private concurrency: Record<JobType, number> = { ...DEFAULT_CONCURRENCY }
+  private activeJobs = new Map<string, { type: JobType, promise: Promise<void> }>()
+  private readonly workerId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`
 
   private constructor() {}
 
@@ -32,14 +90,16 @@ export class JobQueue {
   // Add a job to the queue
   async enqueue(
     type: JobType,
-    payload: JobPayload,
+    payload: JobData,
     maxAttempts: number = 3,
     scheduledAt?: Date
   ): Promise<string> {
     const job = await prisma.job.create({
       data: {
         type,
-        payload: payload as JobData,
+        payload: payload as Prisma.InputJsonObject,
+        userId: typeof payload.userId === 'string' ? payload.userId : null,
+        pageId: typeof payload.pageId === 'string' ? payload.pageId : null,
         maxAttempts,
         scheduledAt: scheduledAt || new Date(),
         status: JobStatus.QUEUED
@@ -49,197 +109,424 @@ export class JobQueue {
     return job.id
   }
 
-  // Get next job to process
-  async getNextJob(): Promise<{
-    id: string
-    type: JobType
-    payload: JobData
-    attempts: number
-    maxAttempts: number
-  } | null> {
-    const job = await prisma.job.findFirst({
+  // Claim up to `limit` due jobs of one type for this worker
+  async claimJobs(type: JobType, limit: number): Promise<QueuedJob[]> {
+    if (limit <= 0) return []
+
+    // FAILED jobs are waiting out their backoff; exhausted ones are already DEAD_LETTER
+    const candidates = await prisma.job.findMany({
       where: {
-        status: JobStatus.QUEUED,
+        type,
+        status: { in: [JobStatus.QUEUED, JobStatus.FAILED] },
         scheduledAt: {
           lte: new Date()
-        },
-        attempts: {
-          lt: prisma.job.fields.maxAttempts
         }
       },
       orderBy: {
         scheduledAt: 'asc'
-      }
+      },
+      take: limit
     })
 
-    if (job) {
-      // Mark as running
-      await prisma.job.update({
-        where: { id: job.id },
+    const claimed: QueuedJob[] = []
+
+    for (const job of candidates) {
+      // Conditional update: only one worker can move a given job out of its waiting state
+      const result = await prisma.job.updateMany({
+        where: {
+          id: job.id,
+          status: job.status
+        },
         data: {
           status: JobStatus.RUNNING,
           startedAt: new Date(),
+          lockedBy: this.workerId,
+          leaseExpiresAt: new Date(Date.now() + LEASE_DURATION_MS),
           attempts: {
             increment: 1
           }
         }
       })
+
+      if (result.count === 1) {
+        claimed.push({
+          id: job.id,
+          type: job.type,
+          payload: job.payload as JobData,
+          attempts: job.attempts + 1,
+          maxAttempts: job.maxAttempts
+        })
+      }
     }
 
-    return job
+    return claimed
   }
 
-  // Mark job as completed
-  async completeJob(jobId: string): Promise<void> {
-    await prisma.job.update({
-      where: { id: jobId },
+  // Mark job as completed, keeping the processor's summary
+  async completeJob(jobId: string, result?: object): Promise<void> {
+    await prisma.job.updateMany({
+      where: {
+        id: jobId,
+        status: JobStatus.RUNNING,
+        lockedBy: this.workerId
+      },
       data: {
         status: JobStatus.COMPLETED,
-        completedAt: new Date()
+        completedAt: new Date(),
+        lockedBy: null,
+        leaseExpiresAt: null,
+        ...(result && { result })
       }
     })
   }
 
-  // Mark job as failed
-  async failJob(jobId: string, error: string): Promise<void> {
+  // Record a failed attempt: retry with backoff, or dead-letter once attempts run out
+  async failJob(jobId: string, error: unknown): Promise<void> {
     const job = await prisma.job.findUnique({
       where: { id: jobId }
     })
 
-    if (!job) return
+    // Cancelled or reclaimed while running; nothing left to record
+    if (!job || job.status !== JobStatus.RUNNING) return
 
+    const err = error instanceof Error ? error : new Error(String(error))
     const shouldRetry = job.attempts < job.maxAttempts
-    const nextScheduledAt = shouldRetry 
-      ? new Date(Date.now() + this.calculateBackoffDelay(job.attempts))
-      : undefined
 
-    await prisma.job.update({
-      where: { id: jobId },
+    await prisma.job.updateMany({
+      where: {
+        id: jobId,
+        status: JobStatus.RUNNING,
+        lockedBy: job.lockedBy
+      },
       data: {
-        status: shouldRetry ? JobStatus.QUEUED : JobStatus.FAILED,
-        lastError: error,
-        scheduledAt: nextScheduledAt,
-        startedAt: null
+        status: shouldRetry ? JobStatus.FAILED : JobStatus.DEAD_LETTER,
+        lastError: err.message,
+        lastErrorStack: err.stack || null,
+        failedAt: new Date(),
+        ...(shouldRetry ? {
+          scheduledAt: new Date(Date.now() + this.calculateBackoffDelay(job.attempts))
+        } : {
+          completedAt: new Date()
+        }),
+        startedAt: null,
+        lockedBy: null,
+        leaseExpiresAt: null
       }
     })
+
+    console.warn(shouldRetry
+      ? `Job ${jobId} failed (attempt ${job.attempts}/${job.maxAttempts}), will retry`
+      : `Job ${jobId} failed permanently after ${job.attempts} attempts`)
   }
 
-  // Calculate exponential backoff delay
+  // Exponential backoff with jitter so jobs that failed together don't retry together
   private calculateBackoffDelay(attempts: number): number {
-    const baseDelay = 1000 // 1 second
+    const baseDelay = 5000 // 5 seconds
     const maxDelay = 300000 // 5 minutes
-    return Math.min(baseDelay * Math.pow(2, attempts), maxDelay)
+    const delay = Math.min(baseDelay * Math.pow(2, attempts - 1), maxDelay)
+    return delay / 2 + Math.random() * (delay / 2)
+  }
+
+  // Put a failed, dead-lettered or cancelled job back in the queue with fresh attempts
+  async retryJob(jobId: string): Promise<boolean> {
+    const result = await prisma.job.updateMany({
+      where: {
+        id: jobId,
+        status: { in: [JobStatus.FAILED, JobStatus.DEAD_LETTER, JobStatus.CANCELLED] }
+      },
+      data: {
+        status: JobStatus.QUEUED,
+        attempts: 0,
+        scheduledAt: new Date(),
+        startedAt: null,
+        completedAt: null
+      }
+    })
+
+    return result.count === 1
+  }
+
+  // Enqueue a fresh copy of a finished job, e.g. to re-run a completed fetch
+  async requeueJob(jobId: string): Promise<string | null> {
+    const job = await prisma.job.findFirst({
+      where: {
+        id: jobId,
+        status: { in: [JobStatus.COMPLETED, JobStatus.DEAD_LETTER, JobStatus.CANCELLED] }
+      }
+    })
+
+    if (!job) return null
+
+    return this.enqueue(job.type, job.payload as JobData, job.maxAttempts)
+  }
+
+  // Cancel a job that hasn't finished; a running processor's outcome is discarded
+  async cancelJob(jobId: string): Promise<boolean> {
+    const result = await prisma.job.updateMany({
+      where: {
+        id: jobId,
+        status: { in: [JobStatus.QUEUED, JobStatus.FAILED, JobStatus.RUNNING] }
+      },
+      data: {
+        status: JobStatus.CANCELLED,
+        completedAt: new Date(),
+        lockedBy: null,
+        leaseExpiresAt: null
+      }
+    })
+
+    return result.count === 1
+  }
+
+  // Fail RUNNING jobs whose worker stopped heartbeating, so they retry or dead-letter
+  async reclaimExpiredJobs(): Promise<number> {
+    const expired = await prisma.job.findMany({
+      where: {
+        status: JobStatus.RUNNING,
+        leaseExpiresAt: { lt: new Date() }
+      },
+      select: { id: true, lockedBy: true }
+    })
+
+    for (const job of expired) {
+      await this.failJob(job.id, new Error(`Worker ${job.lockedBy} lease expired`))
+    }
+
+    if (expired.length > 0) {
+      console.warn(`Reclaimed ${expired.length} jobs with expired leases`)
+    }
+
+    return expired.length
+  }
+
+  // Extend the lease on every job this worker is running
+  private async heartbeat(): Promise<void> {
+    if (this.activeJobs.size === 0) return
+
+    try {
+      await prisma.job.updateMany({
+        where: {
+          id: { in: Array.from(this.activeJobs.keys()) },
+          lockedBy: this.workerId,
+          status: JobStatus.RUNNING
+        },
+        data: {
+          leaseExpiresAt: new Date(Date.now() + LEASE_DURATION_MS)
+        }
+      })
+    } catch (error) {
+      console.error('Error renewing job leases:', error)
+    }
   }
 
   // Start processing jobs
-  startProcessing(intervalMs: number = 5000): void {
+  startProcessing(options: ProcessingOptions = {}): void {
     if (this.isProcessing) return
 
+    this.concurrency = {
+      ...DEFAULT_CONCURRENCY,
+      ...concurrencyFromEnv(),
+      ...options.concurrency
+    }
+
     this.isProcessing = true
-    this.processingInterval = setInterval(async () => {
-      await this.processNextJob()
-    }, intervalMs)
+    this.processingInterval = setInterval(() => {
+      void this.tick()
+    }, options.pollIntervalMs || 5000)
+    this.heartbeatInterval = setInterval(() => {
+      void this.heartbeat()
+    }, HEARTBEAT_INTERVAL_MS)
 
-    console.log('Job queue processing started')
+    console.log(`Job queue processing started (worker ${this.workerId})`)
+
+    void this.enqueueRollupBackfill()
   }
 
-  // Stop processing jobs
-  stopProcessing(): void {
+  // Rollups only grow as new analyses are stored, so pages analyzed before they
+  // existed get a one-off rebuild instead of reading from empty rollup tables
+  private async enqueueRollupBackfill(): Promise<void> {
+    try {
+      const { findPagesMissingRollups } = await import('./workers/rebuild-rollups')
+      const pages = await findPagesMissingRollups()
+
+      for (const page of pages) {
+        const pending = await prisma.job.count({
+          where: {
+            type: JobType.REBUILD_ROLLUPS,
+            pageId: page.id,
+            status: { in: [JobStatus.QUEUED, JobStatus.RUNNING, JobStatus.FAILED] }
+          }
+        })
+
+        if (pending === 0) {
+          await this.enqueue(JobType.REBUILD_ROLLUPS, {
+            pageId: page.id,
+            userId: page.ownerUserId
+          })
+        }
+      }
+
+      if (pages.length > 0) {
+        console.log(`Queued rollup backfill for ${pages.length} pages`)
+      }
+    } catch (error) {
+      console.error('Error queueing rollup backfill:', error)
+    }
+  }
+
+  // Stop claiming new jobs and wait for in-flight ones to finish
+  async stopProcessing(): Promise<void> {
     if (this.processingInterval) {
       clearInterval(this.processingInterval)
       this.processingInterval = null
     }
     this.isProcessing = false
+
+    await Promise.allSettled(Array.from(this.activeJobs.values()).map(job => job.promise))
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval)
+      this.heartbeatInterval = null
+    }
     console.log('Job queue processing stopped')
   }
 
-  // Process a single job
-  private async processNextJob(): Promise<void> {
+  isRunning(): boolean {
+    return this.isProcessing
+  }
+
+  // Whether this or any other worker process currently holds a live lease
+  async hasActiveWorkers(): Promise<boolean> {
+    if (this.isProcessing) return true
+
+    const leased = await prisma.job.count({
+      where: {
+        status: JobStatus.RUNNING,
+        leaseExpiresAt: { gt: new Date() }
+      }
+    })
+
+    return leased > 0
+  }
+
+  // Fill free slots for each job type; overlapping ticks are skipped
+  private async tick(): Promise<void> {
+    if (this.isTicking || !this.isProcessing) return
+    this.isTicking = true
+
     try {
-      const job = await this.getNextJob()
-      if (!job) return
+      await this.reclaimExpiredJobs()
+
+      if (Date.now() - this.lastScheduleCheck >= SCHEDULE_CHECK_INTERVAL_MS) {
+        this.lastScheduleCheck = Date.now()
+        const { runDueSchedules } = await import('./scheduler')
+        await runDueSchedules()
+      }
 
+      for (const type of Object.values(JobType)) {
+        const running = Array.from(this.activeJobs.values()).filter(job => job.type === type).length
+        const jobs = await this.claimJobs(type, this.concurrency[type] - running)
+
+        for (const job of jobs) {
+          const promise = this.processJob(job).finally(() => {
+            this.activeJobs.delete(job.id)
+          })
+          this.activeJobs.set(job.id, { type, promise })
+        }
+      }
+    } catch (error) {
+      console.error('Error polling job queue:', error)
+    } finally {
+      this.isTicking = false
+    }
+  }
+
+  // Process a single claimed job
+  private async processJob(job: QueuedJob): Promise<void> {
+    try {
       console.log(`Processing job ${job.id} of type ${job.type}`)
 
+      let result: object | undefined
+
       switch (job.type) {
         case JobType.FETCH_POSTS:
-          await this.processFetchPostsJob(job)
+          result = await this.processFetchPostsJob(job)
           break
         case JobType.FETCH_COMMENTS:
-          await this.processFetchCommentsJob(job)
+          result = await this.processFetchCommentsJob(job)
           break
         case JobType.ANALYZE_SENTIMENT:
           await this.processAnalyzeSentimentJob(job)
           break
+        case JobType.ANALYZE_SENTIMENT_BATCH:
+          result = await this.processAnalyzeSentimentBatchJob(job)
+          break
+        case JobType.ANALYZE_POST_SENTIMENT:
+          result = await this.processAnalyzePostSentimentJob(job)
+          break
         case JobType.REFRESH_TOKENS:
           await this.processRefreshTokensJob(job)
           break
         case JobType.CLEANUP_DATA:
           await this.processCleanupDataJob(job)
           break
+        case JobType.REBUILD_ROLLUPS:
+          result = await this.processRebuildRollupsJob(job)
+          break
+        case JobType.REANALYZE_COMMENTS:
+          result = await this.processReanalyzeCommentsJob(job)
+          break
         default:
           throw new Error(`Unknown job type: ${job.type}`)
       }
 
-      await this.completeJob(job.id)
+      await this.completeJob(job.id, result)
       console.log(`Job ${job.id} completed successfully`)
+
+      if (job.payload.scheduleId) {
+        const { recordScheduledJobSuccess } = await import('./scheduler')
+        await recordScheduledJobSuccess(job.payload)
+      }
     } catch (error) {
-      console.error('Error processing job:', error)
-      if (error instanceof Error && 'jobId' in error) {
-        await this.failJob((error as Error & { jobId: string }).jobId, error.message)
+      console.error(`Error processing job ${job.id}:`, error)
+      try {
+        await this.failJob(job.id, error)
+      } catch (failError) {
+        // The lease will expire and the job will be reclaimed
+        console.error(`Error recording failure for job ${job.id}:`, failError)
       }
     }
   }
 
   // Job processors
-  private async processFetchPostsJob(job: {
-    id: string
-    type: JobType
-    payload: JobData
-    attempts: number
-    maxAttempts: number
-  }): Promise<void> {
-    const { pageId, dateRange, platform } = job.payload
+  private async processFetchPostsJob(job: QueuedJob): Promise<object> {
+    const { pageId, dateRange } = job.payload
     
     try {
       // Import here to avoid circular dependencies
       const { fetchPostsForPage } = await import('./workers/fetch-posts')
-      await fetchPostsForPage(pageId!, dateRange, platform)
+      return await fetchPostsForPage(pageId!, dateRange)
     } catch (error) {
       const err = error as Error
       err.message = `Failed to fetch posts: ${err.message}`
-      ;(err as Error & { jobId: string }).jobId = job.id
       throw err
     }
   }
 
-  private async processFetchCommentsJob(job: {
-    id: string
-    type: JobType
-    payload: JobData
-    attempts: number
-    maxAttempts: number
-  }): Promise<void> {
-    const { postId, platform } = job.payload
+  private async processFetchCommentsJob(job: QueuedJob): Promise<object> {
+    const { postId } = job.payload
     
     try {
       const { fetchCommentsForPost } = await import('./workers/fetch-comments')
-      await fetchCommentsForPost(postId!, platform)
+      return await fetchCommentsForPost(postId!)
     } catch (error) {
       const err = error as Error
       err.message = `Failed to fetch comments: ${err.message}`
-      ;(err as Error & { jobId: string }).jobId = job.id
       throw err
     }
   }
 
-  private async processAnalyzeSentimentJob(job: {
-    id: string
-    type: JobType
-    payload: JobData
-    attempts: number
-    maxAttempts: number
-  }): Promise<void> {
+  private async processAnalyzeSentimentJob(job: QueuedJob): Promise<void> {
     const { commentId } = job.payload
     
     try {
@@ -248,36 +535,50 @@ export class JobQueue {
     } catch (error) {
       const err = error as Error
       err.message = `Failed to analyze sentiment: ${err.message}`
-      ;(err as Error & { jobId: string }).jobId = job.id
       throw err
     }
   }
 
-  private async processRefreshTokensJob(job: {
-    id: string
-    type: JobType
-    payload: JobData
-    attempts: number
-    maxAttempts: number
-  }): Promise<void> {
+  private async processAnalyzeSentimentBatchJob(job: QueuedJob): Promise<object> {
+    const { commentIds } = job.payload
+    
+    try {
+      const { analyzeSentimentBatch } = await import('./workers/analyze-sentiment')
+      return await analyzeSentimentBatch(commentIds as string[])
+    } catch (error) {
+      const err = error as Error
+      err.message = `Failed to analyze sentiment batch: ${err.message}`
+      throw err
+    }
+  }
+
+  private async processAnalyzePostSentimentJob(job: QueuedJob): Promise<object> {
+    const { postIds } = job.payload
+    
+    try {
+      const { analyzePostSentimentBatch } = await import('./workers/analyze-post-sentiment')
+      return await analyzePostSentimentBatch(postIds as string[])
+    } catch (error) {
+      const err = error as Error
+      err.message = `Failed to analyze post sentiment: ${err.message}`
+      throw err
+    }
+  }
+
+  private async processRefreshTokensJob(job: QueuedJob): Promise<void> {
+    const { userId } = job.payload
+    
     try {
       const { refreshExpiredTokens } = await import('./workers/refresh-tokens')
-      await refreshExpiredTokens()
+      await refreshExpiredTokens(userId)
     } catch (error) {
       const err = error as Error
       err.message = `Failed to refresh tokens: ${err.message}`
-      ;(err as Error & { jobId: string }).jobId = job.id
       throw err
     }
   }
 
-  private async processCleanupDataJob(job: {
-    id: string
-    type: JobType
-    payload: JobData
-    attempts: number
-    maxAttempts: number
-  }): Promise<void> {
+  private async processCleanupDataJob(job: QueuedJob): Promise<void> {
     const { userId } = job.payload
     
     try {
@@ -286,26 +587,55 @@ export class JobQueue {
     } catch (error) {
       const err = error as Error
       err.message = `Failed to cleanup data: ${err.message}`
-      ;(err as Error & { jobId: string }).jobId = job.id
       throw err
     }
   }
 
-  // Queue statistics
-  async getQueueStats(): Promise<{
+  private async processRebuildRollupsJob(job: QueuedJob): Promise<object> {
+    const { pageId } = job.payload
+    
+    try {
+      const { rebuildRollups } = await import('./workers/rebuild-rollups')
+      return await rebuildRollups(pageId)
+    } catch (error) {
+      const err = error as Error
+      err.message = `Failed to rebuild rollups: ${err.message}`
+      throw err
+    }
+  }
+
+  private async processReanalyzeCommentsJob(job: QueuedJob): Promise<object> {
+    const { campaignId, commentIds } = job.payload
+
+    try {
+      const { reanalyzeComments } = await import('./workers/analyze-sentiment')
+      return await reanalyzeComments(campaignId as string, commentIds as string[])
+    } catch (error) {
+      const err = error as Error
+      err.message = `Failed to reanalyze comments: ${err.message}`
+      throw err
+    }
+  }
+
+  // Queue statistics, optionally limited to one user's jobs
+  async getQueueStats(userId?: string): Promise<{
     queued: number
     running: number
     completed: number
     failed: number
+    deadLetter: number
+    cancelled: number
   }> {
-    const [queued, running, completed, failed] = await Promise.all([
-      prisma.job.count({ where: { status: JobStatus.QUEUED } }),
-      prisma.job.count({ where: { status: JobStatus.RUNNING } }),
-      prisma.job.count({ where: { status: JobStatus.COMPLETED } }),
-      prisma.job.count({ where: { status: JobStatus.FAILED } })
+    const [queued, running, completed, failed, deadLetter, cancelled] = await Promise.all([
+      prisma.job.count({ where: { userId, status: JobStatus.QUEUED } }),
+      prisma.job.count({ where: { userId, status: JobStatus.RUNNING } }),
+      prisma.job.count({ where: { userId, status: JobStatus.COMPLETED } }),
+      prisma.job.count({ where: { userId, status: JobStatus.FAILED } }),
+      prisma.job.count({ where: { userId, status: JobStatus.DEAD_LETTER } }),
+      prisma.job.count({ where: { userId, status: JobStatus.CANCELLED } })
     ])
 
-    return { queued, running, completed, failed }
+    return { queued, running, completed, failed, deadLetter, cancelled }
   }
 
   // Clean up old completed jobs
@@ -0,0 +1,264 @@
+// src/lib/reanalysis.ts
+import { PrismaClient, Prisma, JobType, Sentiment } from '@prisma/client'
+import { JobQueue } from './queue'
+
+const prisma = new PrismaClient()
+
+const REANALYSIS_BATCH_SIZE = parseInt(process.env.ANALYSIS_BATCH_SIZE || '50', 10)
+
+// Keeps IN lists well under SQLite's bound parameter limit
+const QUERY_CHUNK_SIZE = 500
+
+const MAX_EXAMPLES = 20
+
+const SENTIMENTS = [Sentiment.POSITIVE, Sentiment.NEUTRAL, Sentiment.NEGATIVE]
+
+export interface ReanalysisFilters {
+  pageId?: string | null
+  since?: Date | null
+  until?: Date | null
+  fromModelName?: string | null // Only comments whose current analysis came from this model
+  analyzerId?: string | null
+}
+
+export interface LabelShift {
+  from: Sentiment
+  to: Sentiment
+  count: number
+}
+
+export interface ModelShift {
+  fromModel: string
+  toModel: string
+  count: number
+  changed: number
+  averageScoreChange: number
+  averageToxicityChange: number
+}
+
+export interface ShiftExample {
+  commentId: string
+  message: string
+  from: Sentiment
+  to: Sentiment
+  fromModel: string
+  toModel: string
+}
+
+// How a campaign's versions differ from the versions they replaced
+export interface CampaignComparison {
+  compared: number
+  changed: number
+  shifts: LabelShift[] // Every from/to pair, including unchanged labels
+  models: ModelShift[]
+  examples: ShiftExample[] // Comments whose label changed, most recent first
+}
+
+function targetWhere(userId: string, filters: ReanalysisFilters): Prisma.CommentWhereInput {
+  return {
+    post: {
+      page: {
+        ownerUserId: userId
+      },
+      ...(filters.pageId && { pageId: filters.pageId })
+    },
+    ...((filters.since || filters.until) && {
+      createdTime: {
+        ...(filters.since && { gte: filters.since }),
+        ...(filters.until && { lte: filters.until })
+      }
+    }),
+    analysis: {
+      some: {
+        isCurrent: true,
+        ...(filters.fromModelName && { modelName: filters.fromModelName })
+      }
+    }
+  }
+}
+
+export async function countReanalysisTargets(userId: string, filters: ReanalysisFilters): Promise<number> {
+  return await prisma.comment.count({
+    where: targetWhere(userId, filters)
+  })
+}
+
+// Create a campaign for every analyzed comment matching the filters and enqueue it in batches
+export async function createReanalysisCampaign(
+  userId: string,
+  filters: ReanalysisFilters
+): Promise<{ campaignId: string, commentCount: number, jobIds: string[] }> {
+  const comments = await prisma.comment.findMany({
+    where: targetWhere(userId, filters),
+    select: { id: true, post: { select: { pageId: true } } },
+    orderBy: { createdTime: 'asc' }
+  })
+
+  const campaign = await prisma.reanalysisCampaign.create({
+    data: {
+      userId,
+      pageId: filters.pageId || null,
+      since: filters.since || null,
+      until: filters.until || null,
+      fromModelName: filters.fromModelName || null,
+      analyzerId: filters.analyzerId || null,
+      commentCount: comments.length,
+      ...(comments.length === 0 && { completedAt: new Date() })
+    }
+  })
+
+  const queue = JobQueue.getInstance()
+  const jobIds: string[] = []
+
+  for (let offset = 0; offset < comments.length; offset += REANALYSIS_BATCH_SIZE) {
+    const batch = comments.slice(offset, offset + REANALYSIS_BATCH_SIZE)
+    const pageIds = new Set(batch.map(comment => comment.post.pageId))
+
+    const jobId = await queue.enqueue(JobType.REANALYZE_COMMENTS, {
+      campaignId: campaign.id,
+      commentIds: batch.map(comment => comment.id),
+      userId,
+      ...(pageIds.size === 1 && { pageId: batch[0].post.pageId })
+    })
+
+    jobIds.push(jobId)
+  }
+
+  return { campaignId: campaign.id, commentCount: comments.length, jobIds }
+}
+
+// Models behind users' current analyses, for choosing what to re-analyze
+export async function currentModels(userId: string): Promise<Array<{ modelName: string, count: number }>> {
+  const groups = await prisma.analysis.groupBy({
+    by: ['modelName'],
+    where: {
+      isCurrent: true,
+      comment: {
+        post: {
+          page: {
+            ownerUserId: userId
+          }
+        }
+      }
+    },
+    _count: { _all: true }
+  })
+
+  return groups
+    .map(group => ({ modelName: group.modelName, count: group._count._all }))
+    .sort((a, b) => b.count - a.count)
+}
+
+// Compare each version a campaign produced with the version it replaced
+export async function compareCampaign(campaignId: string): Promise<CampaignComparison> {
+  const campaignAnalyses = await prisma.analysis.findMany({
+    where: { campaignId },
+    select: {
+      commentId: true,
+      version: true,
+      sentimentLabel: true,
+      sentimentScore: true,
+      toxicityScore: true,
+      modelName: true,
+      analyzedAt: true,
+      comment: {
+        select: { message: true }
+      }
+    },
+    orderBy: { analyzedAt: 'desc' }
+  })
+
+  // Earlier versions of the same comments; the replaced one is the highest below the campaign's
+  const previousByComment = new Map<string, { version: number, sentimentLabel: Sentiment, sentimentScore: number, toxicityScore: number, modelName: string }>()
+  const versionByComment = new Map(campaignAnalyses.map(analysis => [analysis.commentId, analysis.version]))
+  const commentIds = Array.from(versionByComment.keys())
+
+  for (let offset = 0; offset < commentIds.length; offset += QUERY_CHUNK_SIZE) {
+    const earlier = await prisma.analysis.findMany({
+      where: {
+        commentId: { in: commentIds.slice(offset, offset + QUERY_CHUNK_SIZE) }
+      },
+      select: {
+        commentId: true,
+        version: true,
+        sentimentLabel: true,
+        sentimentScore: true,
+        toxicityScore: true,
+        modelName: true
+      }
+    })
+
+    for (const analysis of earlier) {
+      const campaignVersion = versionByComment.get(analysis.commentId)!
+      const current = previousByComment.get(analysis.commentId)
+      if (analysis.version < campaignVersion && (!current || analysis.version > current.version)) {
+        previousByComment.set(analysis.commentId, analysis)
+      }
+    }
+  }
+
+  const shifts = new Map<string, LabelShift>()
+  for (const from of SENTIMENTS) {
+    for (const to of SENTIMENTS) {
+      shifts.set(`${from}:${to}`, { from, to, count: 0 })
+    }
+  }
+
+  const models = new Map<string, ModelShift & { scoreChangeSum: number, toxicityChangeSum: number }>()
+  const examples: ShiftExample[] = []
+  let compared = 0
+  let changed = 0
+
+  for (const analysis of campaignAnalyses) {
+    const previous = previousByComment.get(analysis.commentId)
+    if (!previous) continue
+
+    compared++
+    const isChanged = previous.sentimentLabel !== analysis.sentimentLabel
+    if (isChanged) changed++
+
+    shifts.get(`${previous.sentimentLabel}:${analysis.sentimentLabel}`)!.count++
+
+    const modelKey = `${previous.modelName}\u0000${analysis.modelName}`
+    const model = models.get(modelKey) || {
+      fromModel: previous.modelName,
+      toModel: analysis.modelName,
+      count: 0,
+      changed: 0,
+      averageScoreChange: 0,
+      averageToxicityChange: 0,
+      scoreChangeSum: 0,
+      toxicityChangeSum: 0
+    }
+    model.count++
+    if (isChanged) model.changed++
+    model.scoreChangeSum += analysis.sentimentScore - previous.sentimentScore
+    model.toxicityChangeSum += analysis.toxicityScore - previous.toxicityScore
+    models.set(modelKey, model)
+
+    if (isChanged && examples.length < MAX_EXAMPLES) {
+      examples.push({
+        commentId: analysis.commentId,
+        message: analysis.comment.message,
+        from: previous.sentimentLabel,
+        to: analysis.sentimentLabel,
+        fromModel: previous.modelName,
+        toModel: analysis.modelName
+      })
+    }
+  }
+
+  return {
+    compared,
+    changed,
+    shifts: Array.from(shifts.values()),
+    models: Array.from(models.values())
+      .map(({ scoreChangeSum, toxicityChangeSum, ...model }) => ({
+        ...model,
+        averageScoreChange: scoreChangeSum / model.count,
+        averageToxicityChange: toxicityChangeSum / model.count
+      }))
+      .sort((a, b) => b.count - a.count),
+    examples
+  }
+}
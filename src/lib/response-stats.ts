@@ -0,0 +1,60 @@
+// src/lib/response-stats.ts
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+// Long enough to recognise the failure without storing whole model replies
+const MAX_ERROR_LENGTH = 500
+
+export interface ModelResponseStats {
+  modelName: string
+  rejected: number
+  repaired: number
+  lastError: string | null
+  lastRejectedAt: string | null
+}
+
+// Count a response from modelName that failed validation
+export async function recordRejectedResponse(modelName: string, reason: string): Promise<void> {
+  const lastError = reason.slice(0, MAX_ERROR_LENGTH)
+  const lastRejectedAt = new Date()
+
+  try {
+    await prisma.modelResponseStat.upsert({
+      where: { modelName },
+      create: { modelName, rejected: 1, lastError, lastRejectedAt },
+      update: { rejected: { increment: 1 }, lastError, lastRejectedAt }
+    })
+  } catch (error) {
+    // Counters are diagnostic; never fail the analysis that produced them
+    console.error(`Error recording rejected response for ${modelName}:`, error)
+  }
+}
+
+// Count a rejected response that a repair retry fixed
+export async function recordRepairedResponse(modelName: string): Promise<void> {
+  try {
+    await prisma.modelResponseStat.upsert({
+      where: { modelName },
+      create: { modelName, repaired: 1 },
+      update: { repaired: { increment: 1 } }
+    })
+  } catch (error) {
+    console.error(`Error recording repaired response for ${modelName}:`, error)
+  }
+}
+
+// Models with the most rejections first
+export async function getResponseStats(): Promise<ModelResponseStats[]> {
+  const stats = await prisma.modelResponseStat.findMany({
+    orderBy: [{ rejected: 'desc' }, { modelName: 'asc' }]
+  })
+
+  return stats.map(stat => ({
+    modelName: stat.modelName,
+    rejected: stat.rejected,
+    repaired: stat.repaired,
+    lastError: stat.lastError,
+    lastRejectedAt: stat.lastRejectedAt?.toISOString() ?? null
+  }))
+}
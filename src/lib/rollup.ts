@@ -0,0 +1,114 @@
+// src/lib/rollup.ts
+import { Prisma, PrismaClient, Platform, Sentiment } from '@prisma/client'
+import { EmotionScores, dominantEmotion } from './emotions'
+
+// Comments at or above this toxicity score count as "high toxicity"
+export const HIGH_TOXICITY_THRESHOLD = 0.7
+
+export interface RollupInput {
+  pageId: string
+  platform: Platform
+  createdTime: Date
+  likeCount: number
+  sentimentLabel: Sentiment
+  sentimentScore: number
+  toxicityScore: number
+  emotions?: EmotionScores | null
+}
+
+type RollupClient = PrismaClient | Prisma.TransactionClient
+
+// Rollup rows are keyed by the UTC day the comment was created
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+// Signed sentiment in [-1, 1]: positive confidence counts up, negative counts down
+export function polarityOf(label: Sentiment, score: number): number {
+  if (label === Sentiment.POSITIVE) return score
+  if (label === Sentiment.NEGATIVE) return -score
+  return 0
+}
+
+// Per-analysis contribution to a rollup row
+export function rollupIncrements(input: RollupInput) {
+  const emotion = dominantEmotion(input.emotions ?? null)
+
+  return {
+    positiveCount: input.sentimentLabel === Sentiment.POSITIVE ? 1 : 0,
+    negativeCount: input.sentimentLabel === Sentiment.NEGATIVE ? 1 : 0,
+    neutralCount: input.sentimentLabel === Sentiment.NEUTRAL ? 1 : 0,
+    commentCount: 1,
+    likeCount: input.likeCount,
+    sentimentScoreSum: input.sentimentScore,
+    polaritySum: polarityOf(input.sentimentLabel, input.sentimentScore),
+    toxicityScoreSum: input.toxicityScore,
+    highToxicityCount: input.toxicityScore >= HIGH_TOXICITY_THRESHOLD ? 1 : 0,
+    emotionCount: input.emotions ? 1 : 0,
+    angerCount: emotion === 'anger' ? 1 : 0,
+    disgustCount: emotion === 'disgust' ? 1 : 0,
+    fearCount: emotion === 'fear' ? 1 : 0,
+    joyCount: emotion === 'joy' ? 1 : 0,
+    sadnessCount: emotion === 'sadness' ? 1 : 0,
+    surpriseCount: emotion === 'surprise' ? 1 : 0
+  }
+}
+
+// Add a single analysis to its page/day rollup row
+export async function recordAnalysisInRollup(
+  client: RollupClient,
+  input: RollupInput
+): Promise<void> {
+  const day = startOfUtcDay(input.createdTime)
+  const increments = rollupIncrements(input)
+
+  await client.sentimentDailyRollup.upsert({
+    where: {
+      pageId_platform_day: {
+        pageId: input.pageId,
+        platform: input.platform,
+        day
+      }
+    },
+    update: Object.fromEntries(
+      Object.entries(increments).map(([field, value]) => [field, { increment: value }])
+    ),
+    create: {
+      pageId: input.pageId,
+      platform: input.platform,
+      day,
+      ...increments
+    }
+  })
+}
+
+// Take an analysis back out of its rollup row
+async function removeAnalysisFromRollup(
+  client: RollupClient,
+  input: RollupInput
+): Promise<void> {
+  const increments = rollupIncrements(input)
+
+  await client.sentimentDailyRollup.updateMany({
+    where: {
+      pageId: input.pageId,
+      platform: input.platform,
+      day: startOfUtcDay(input.createdTime)
+    },
+    data: Object.fromEntries(
+      Object.entries(increments).map(([field, value]) => [field, { decrement: value }])
+    )
+  })
+}
+
+// Swap a comment's contribution for a new one, e.g. when a re-analysis or an analyst's label replaces it.
+// Likes stay as first recorded: the comment's like count has usually changed since, and
+// subtracting the current count instead would make the row's likeCount drift.
+export async function replaceAnalysisInRollup(
+  client: RollupClient,
+  previous: RollupInput,
+  next: RollupInput
+): Promise<void> {
+  await removeAnalysisFromRollup(client, { ...previous, likeCount: 0 })
+  await recordAnalysisInRollup(client, { ...next, likeCount: 0 })
+}
@@ -0,0 +1,132 @@
+// src/lib/scheduler.ts
+import { PrismaClient, JobStatus, JobType } from '@prisma/client'
+import { JobQueue, JobData } from './queue'
+
+const prisma = new PrismaClient()
+
+export const SCHEDULABLE_JOB_TYPES: JobType[] = [
+  JobType.FETCH_POSTS,
+  JobType.REFRESH_TOKENS,
+  JobType.CLEANUP_DATA
+]
+
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 15
+export const MAX_SCHEDULE_INTERVAL_MINUTES = 7 * 24 * 60 // 1 week
+
+// The first scheduled fetch for a page looks back this far
+const INITIAL_SYNC_LOOKBACK_DAYS = 7
+
+// Windows overlap slightly so posts published while a fetch ran aren't missed;
+// posts are upserted, so refetching the overlap is harmless
+const SYNC_WINDOW_OVERLAP_MS = 5 * 60 * 1000
+
+// A previous run in one of these states is still in flight
+const PENDING_JOB_STATUSES: JobStatus[] = [JobStatus.QUEUED, JobStatus.RUNNING, JobStatus.FAILED]
+
+export function nextRunAfter(from: Date, intervalMinutes: number): Date {
+  return new Date(from.getTime() + intervalMinutes * 60000)
+}
+
+// Enqueue a job for every active schedule that is due
+export async function runDueSchedules(now: Date = new Date()): Promise<number> {
+  const schedules = await prisma.syncSchedule.findMany({
+    where: {
+      isActive: true,
+      nextRunAt: { lte: now }
+    },
+    include: {
+      page: {
+        select: { isActive: true, platform: true }
+      }
+    }
+  })
+
+  const queue = JobQueue.getInstance()
+  let enqueuedCount = 0
+
+  for (const schedule of schedules) {
+    try {
+      // Claim this run; another worker that read the same row will match nothing
+      const claimed = await prisma.syncSchedule.updateMany({
+        where: {
+          id: schedule.id,
+          nextRunAt: schedule.nextRunAt
+        },
+        data: {
+          nextRunAt: nextRunAfter(now, schedule.intervalMinutes)
+        }
+      })
+
+      if (claimed.count === 0) continue
+
+      // Don't stack runs behind one that hasn't finished
+      if (schedule.lastJobId) {
+        const previous = await prisma.job.findUnique({
+          where: { id: schedule.lastJobId },
+          select: { status: true }
+        })
+
+        if (previous && PENDING_JOB_STATUSES.includes(previous.status)) {
+          console.log(`Skipping schedule ${schedule.id}: job ${schedule.lastJobId} is still ${previous.status}`)
+          continue
+        }
+      }
+
+      const payload: JobData = {
+        userId: schedule.userId,
+        scheduleId: schedule.id
+      }
+
+      if (schedule.jobType === JobType.FETCH_POSTS) {
+        if (!schedule.pageId || !schedule.page?.isActive) {
+          console.log(`Skipping schedule ${schedule.id}: page is missing or inactive`)
+          continue
+        }
+
+        const since = schedule.lastSuccessAt
+          ? new Date(schedule.lastSuccessAt.getTime() - SYNC_WINDOW_OVERLAP_MS)
+          : new Date(now.getTime() - INITIAL_SYNC_LOOKBACK_DAYS * 86400000)
+
+        payload.pageId = schedule.pageId
+        payload.platform = schedule.page.platform
+        payload.dateRange = {
+          since: since.toISOString(),
+          until: now.toISOString()
+        }
+      }
+
+      const jobId = await queue.enqueue(schedule.jobType, payload)
+
+      await prisma.syncSchedule.update({
+        where: { id: schedule.id },
+        data: {
+          lastRunAt: now,
+          lastJobId: jobId
+        }
+      })
+
+      enqueuedCount++
+    } catch (error) {
+      // One broken schedule shouldn't hold up the rest
+      console.error(`Error running schedule ${schedule.id}:`, error)
+    }
+  }
+
+  if (enqueuedCount > 0) {
+    console.log(`Scheduler enqueued ${enqueuedCount} jobs`)
+  }
+
+  return enqueuedCount
+}
+
+// Advance the rolling window once a scheduled job completes
+export async function recordScheduledJobSuccess(payload: JobData): Promise<void> {
+  if (!payload.scheduleId) return
+
+  const until = payload.dateRange?.until ? new Date(payload.dateRange.until) : new Date()
+
+  await prisma.syncSchedule.updateMany({
+    where: { id: payload.scheduleId },
+    data: { lastSuccessAt: until }
+  })
+}
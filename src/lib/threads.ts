@@ -0,0 +1,112 @@
+// src/lib/threads.ts
+import { Sentiment } from '@prisma/client'
+import { polarityOf } from './rollup'
+
+export interface ThreadComment {
+  id: string
+  externalId: string
+  parentExternalId: string | null
+  authorName: string | null
+  authorUsername: string | null
+  message: string
+  createdTime: Date
+  likeCount: number
+  replyCount: number
+  sentimentLabel: Sentiment | null
+  sentimentScore: number | null
+  contextSentimentLabel: Sentiment | null
+  contextSentimentScore: number | null
+}
+
+// Sentiment of a comment together with every reply beneath it, read in context
+// where a context-aware label exists
+export interface BranchSentiment {
+  commentCount: number
+  analyzedCount: number
+  positive: number
+  negative: number
+  neutral: number
+  averagePolarity: number
+}
+
+export interface ThreadNode extends ThreadComment {
+  replies: ThreadNode[]
+  branch: BranchSentiment
+}
+
+// Nest comments under their parents, oldest first at every level. Replies whose
+// parent isn't stored (deleted, or outside a partial fetch) become thread roots.
+export function buildCommentThreads(comments: ThreadComment[]): ThreadNode[] {
+  const nodes = new Map<string, ThreadNode>()
+  for (const comment of comments) {
+    nodes.set(comment.externalId, { ...comment, replies: [], branch: emptyBranch() })
+  }
+
+  const roots: ThreadNode[] = []
+  for (const node of nodes.values()) {
+    const parent = node.parentExternalId ? nodes.get(node.parentExternalId) : undefined
+    if (parent && parent !== node) {
+      parent.replies.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const byTime = (a: ThreadNode, b: ThreadNode) => a.createdTime.getTime() - b.createdTime.getTime()
+  for (const node of nodes.values()) {
+    node.replies.sort(byTime)
+  }
+  roots.sort(byTime)
+
+  for (const root of roots) {
+    summarizeBranch(root)
+  }
+
+  return roots
+}
+
+function summarizeBranch(node: ThreadNode): BranchSentiment {
+  const branch = emptyBranch()
+  let polaritySum = 0
+
+  const add = (label: Sentiment | null, score: number | null) => {
+    branch.commentCount++
+    if (!label) return
+    branch.analyzedCount++
+    if (label === Sentiment.POSITIVE) branch.positive++
+    else if (label === Sentiment.NEGATIVE) branch.negative++
+    else branch.neutral++
+    polaritySum += polarityOf(label, score ?? 0)
+  }
+
+  if (node.contextSentimentLabel) {
+    add(node.contextSentimentLabel, node.contextSentimentScore)
+  } else {
+    add(node.sentimentLabel, node.sentimentScore)
+  }
+
+  for (const reply of node.replies) {
+    const replyBranch = summarizeBranch(reply)
+    branch.commentCount += replyBranch.commentCount
+    branch.analyzedCount += replyBranch.analyzedCount
+    branch.positive += replyBranch.positive
+    branch.negative += replyBranch.negative
+    branch.neutral += replyBranch.neutral
+    polaritySum += replyBranch.averagePolarity * replyBranch.analyzedCount
+  }
+
+  branch.averagePolarity = branch.analyzedCount > 0 ? polaritySum / branch.analyzedCount : 0
+  node.branch = branch
+  return branch
+}
+
+function emptyBranch(): BranchSentiment {
+  return {
+    commentCount: 0,
+    analyzedCount: 0,
+    positive: 0,
+    negative: 0,
+    neutral: 0,
+    averagePolarity: 0
+  }
+}
@@ -0,0 +1,82 @@
+// src/lib/workers/analyze-post-sentiment.ts
+import { PrismaClient } from '@prisma/client'
+import { AnalysisEngine } from '../analysis'
+
+const prisma = new PrismaClient()
+
+export async function analyzePostSentimentBatch(
+  postIds: string[]
+): Promise<{ analyzedCount: number; skippedCount: number }> {
+  try {
+    // Only posts that still exist, have copy to analyze and have no analysis yet
+    const posts = await prisma.post.findMany({
+      where: {
+        id: { in: postIds },
+        analysis: { none: {} },
+        OR: [
+          { message: { not: null } },
+          { caption: { not: null } }
+        ]
+      },
+      select: {
+        id: true,
+        message: true,
+        caption: true,
+        page: {
+          select: {
+            analyzerId: true,
+            owner: {
+              select: { analyzerId: true }
+            }
+          }
+        }
+      }
+    })
+
+    const analyzable = posts.filter(post => (post.message || post.caption || '').trim().length > 0)
+    const skippedCount = postIds.length - analyzable.length
+
+    if (analyzable.length === 0) {
+      console.log(`No posts to analyze in batch of ${postIds.length}`)
+      return { analyzedCount: 0, skippedCount }
+    }
+
+    console.log(`Analyzing sentiment for batch of ${analyzable.length} posts`)
+
+    // Post copy uses the same analyzer as the page's comments: the page's, else its owner's
+    const groups = new Map<string | undefined, typeof analyzable>()
+    for (const post of analyzable) {
+      const analyzerId = post.page.analyzerId || post.page.owner.analyzerId || undefined
+      groups.set(analyzerId, [...(groups.get(analyzerId) || []), post])
+    }
+
+    for (const [analyzerId, group] of groups) {
+      const results = await AnalysisEngine.getInstance().analyzeBatch(
+        group.map(post => (post.message || post.caption)!),
+        analyzerId
+      )
+
+      await prisma.postAnalysis.createMany({
+        data: group.map((post, index) => ({
+          postId: post.id,
+          language: results[index].language,
+          sentimentLabel: results[index].sentimentLabel,
+          sentimentScore: results[index].sentimentScore,
+          toxicityScore: results[index].toxicityScore,
+          keywords: results[index].keywords || [],
+          modelName: results[index].modelName,
+          modelVersion: results[index].modelVersion,
+          analyzedAt: new Date()
+        }))
+      })
+    }
+
+    console.log(`Successfully analyzed batch of ${analyzable.length} posts (${skippedCount} skipped)`)
+
+    return { analyzedCount: analyzable.length, skippedCount }
+
+  } catch (error) {
+    console.error(`Error analyzing sentiment for batch of ${postIds.length} posts:`, error)
+    throw error
+  }
+}
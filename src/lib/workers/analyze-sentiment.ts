@@ -1,14 +1,50 @@
 // src/lib/workers/analyze-sentiment.ts
-import { PrismaClient } from '@prisma/client'
-import { AnalysisEngine } from '../analysis'
+import { PrismaClient, Prisma, Sentiment } from '@prisma/client'
+import { AnalysisEngine, AnalysisResult, ContextSentimentResult, ContextualText } from '../analysis'
+import { AspectMention, findAspectMentions, toAspectDefinition } from '../aspects'
+import { recordAnalysisInRollup, replaceAnalysisInRollup } from '../rollup'
+import { effectiveRollupInput } from '../annotations'
+import { recordActivity } from '../activity'
+import { isEmojiOnly } from '../emoji'
 
 const prisma = new PrismaClient()
 
+// Thread-aware mode also scores each comment alongside its post and the comment it replies to
+const THREAD_CONTEXT_ENABLED = process.env.ANALYSIS_THREAD_CONTEXT === 'true'
+
+const commentWithPage = {
+  post: {
+    select: {
+      pageId: true,
+      message: true,
+      caption: true,
+      page: {
+        select: {
+          name: true,
+          ownerUserId: true,
+          analyzerId: true,
+          owner: {
+            select: { analyzerId: true }
+          }
+        }
+      }
+    }
+  }
+} satisfies Prisma.CommentInclude
+
+type CommentWithPage = Prisma.CommentGetPayload<{ include: typeof commentWithPage }>
+
+interface AspectSentimentResult extends AspectMention {
+  sentimentLabel: Sentiment
+  sentimentScore: number
+}
+
 export async function analyzeSentiment(commentId: string): Promise<void> {
   try {
     // Get comment details
     const comment = await prisma.comment.findUnique({
-      where: { id: commentId }
+      where: { id: commentId },
+      include: commentWithPage
     })
 
     if (!comment) {
@@ -25,35 +61,393 @@ export async function analyzeSentiment(commentId: string): Promise<void> {
       return
     }
 
-    // Initialize analysis engine
-    const engine = new AnalysisEngine()
-
-    // Perform analysis
+    // Perform analysis with the shared engine
     console.log(`Analyzing sentiment for comment ${commentId}`)
-    const result = await engine.analyze(comment.message)
+    const analyzerId = analyzerFor(comment)
+    const result = await AnalysisEngine.getInstance().analyze(comment.message, analyzerId)
+    const [contextResult] = await analyzeInContext([comment], [result], analyzerId)
+    const [aspectResults] = await analyzeAspects([comment], analyzerId)
+
+    await storeAnalysis(comment, result, contextResult, aspectResults)
+
+    console.log(`Successfully analyzed comment ${commentId} - Sentiment: ${result.sentimentLabel} (${result.sentimentScore.toFixed(2)})`)
+
+    await recordPostAnalysisCompletion(comment.postId, comment.post.page)
+
+  } catch (error) {
+    console.error(`Error analyzing sentiment for comment ${commentId}:`, error)
+    throw error
+  }
+}
+
+export async function analyzeSentimentBatch(
+  commentIds: string[]
+): Promise<{ analyzedCount: number; skippedCount: number }> {
+  try {
+    // Only comments that still exist and have no analysis yet
+    const comments = await prisma.comment.findMany({
+      where: {
+        id: { in: commentIds },
+        analysis: { none: {} }
+      },
+      include: commentWithPage
+    })
+
+    const skippedCount = commentIds.length - comments.length
+
+    if (comments.length === 0) {
+      console.log(`All ${commentIds.length} comments in batch already analyzed`)
+      return { analyzedCount: 0, skippedCount }
+    }
+
+    console.log(`Analyzing sentiment for batch of ${comments.length} comments`)
+
+    await analyzeAndStore(comments)
+
+    console.log(`Successfully analyzed batch of ${comments.length} comments (${skippedCount} skipped)`)
+
+    // One completion check per post touched by this batch
+    const posts = new Map(comments.map(comment => [comment.postId, comment.post.page]))
+    for (const [postId, page] of posts) {
+      await recordPostAnalysisCompletion(postId, page)
+    }
+
+    return { analyzedCount: comments.length, skippedCount }
+
+  } catch (error) {
+    console.error(`Error analyzing sentiment for batch of ${commentIds.length} comments:`, error)
+    throw error
+  }
+}
+
+// Give already analyzed comments a new analysis version for a re-analysis campaign
+export async function reanalyzeComments(
+  campaignId: string,
+  commentIds: string[]
+): Promise<{ analyzedCount: number; changedCount: number; skippedCount: number }> {
+  try {
+    const campaign = await prisma.reanalysisCampaign.findUnique({
+      where: { id: campaignId }
+    })
+
+    if (!campaign) {
+      throw new Error(`Reanalysis campaign not found: ${campaignId}`)
+    }
+
+    // Comments that already have a version from this campaign are skipped,
+    // so a retried job doesn't add a second one
+    const comments = await prisma.comment.findMany({
+      where: {
+        id: { in: commentIds },
+        analysis: { none: { campaignId } }
+      },
+      include: commentWithPage
+    })
+
+    const skippedCount = commentIds.length - comments.length
+    let changedCount = 0
+
+    if (comments.length > 0) {
+      console.log(`Reanalyzing ${comments.length} comments for campaign ${campaignId}`)
+
+      const stored = await analyzeAndStore(comments, campaign.analyzerId || undefined, campaignId)
+      changedCount = stored.filter(({ previousLabel, result }) =>
+        previousLabel !== null && previousLabel !== result.sentimentLabel
+      ).length
+    }
+
+    // Counted rather than incremented so retries and concurrent batches stay accurate
+    const analyzedCount = await prisma.analysis.count({
+      where: { campaignId }
+    })
+
+    await prisma.reanalysisCampaign.update({
+      where: { id: campaignId },
+      data: { analyzedCount }
+    })
+
+    // Conditional so only the batch that finishes the campaign records it
+    const completed = analyzedCount >= campaign.commentCount && (await prisma.reanalysisCampaign.updateMany({
+      where: { id: campaignId, completedAt: null },
+      data: { completedAt: new Date() }
+    })).count === 1
+
+    if (completed) {
+      await recordActivity(
+        campaign.userId,
+        'REANALYSIS_COMPLETED',
+        'REANALYSIS_CAMPAIGN',
+        `Completed re-analysis of ${analyzedCount} comments`,
+        { campaignId, commentCount: analyzedCount }
+      )
+    }
+
+    console.log(`Reanalyzed ${comments.length} comments for campaign ${campaignId} (${changedCount} changed label, ${skippedCount} skipped)`)
+
+    return { analyzedCount: comments.length, changedCount, skippedCount }
+
+  } catch (error) {
+    console.error(`Error reanalyzing comments for campaign ${campaignId}:`, error)
+    throw error
+  }
+}
+
+// Analyze comments and store a new current analysis for each. Pages can choose their own
+// analyzer, so each choice is analyzed as its own group unless analyzerOverride is given.
+async function analyzeAndStore(
+  comments: CommentWithPage[],
+  analyzerOverride?: string,
+  campaignId?: string
+): Promise<Array<{ result: AnalysisResult; previousLabel: Sentiment | null }>> {
+  const groups = new Map<string | undefined, CommentWithPage[]>()
+  for (const comment of comments) {
+    const analyzerId = analyzerOverride || analyzerFor(comment)
+    groups.set(analyzerId, [...(groups.get(analyzerId) || []), comment])
+  }
+
+  const stored: Array<{ result: AnalysisResult; previousLabel: Sentiment | null }> = []
+
+  for (const [analyzerId, group] of groups) {
+    const results = await AnalysisEngine.getInstance().analyzeBatch(
+      group.map(comment => comment.message),
+      analyzerId
+    )
+
+    const contextResults = await analyzeInContext(group, results, analyzerId)
+    const aspectResults = await analyzeAspects(group, analyzerId)
+
+    for (let index = 0; index < group.length; index++) {
+      const previousLabel = await storeAnalysis(group[index], results[index], contextResults[index], aspectResults[index], campaignId)
+      stored.push({ result: results[index], previousLabel })
+    }
+  }
+
+  return stored
+}
+
+// Context-aware sentiment for each comment, or nulls when thread-aware mode is off
+async function analyzeInContext(
+  comments: CommentWithPage[],
+  results: AnalysisResult[],
+  analyzerId?: string
+): Promise<Array<ContextSentimentResult | null>> {
+  if (!THREAD_CONTEXT_ENABLED) return comments.map(() => null)
+
+  const parentMessages = await findParentMessages(comments)
+
+  const items: ContextualText[] = []
+  const itemIndexes: number[] = []
+
+  comments.forEach((comment, index) => {
+    const postText = comment.post.message || comment.post.caption
+    const parentText = comment.parentExternalId
+      ? parentMessages.get(`${comment.platform}:${comment.parentExternalId}`)
+      : null
+
+    // Emoji-only comments are scored from the emoji lexicon, which context doesn't change
+    if ((!postText && !parentText) || isEmojiOnly(comment.message)) return
+
+    items.push({ text: comment.message, context: { postText, parentText } })
+    itemIndexes.push(index)
+  })
+
+  const contextResults = await AnalysisEngine.getInstance().analyzeInContext(items, analyzerId)
+  const byIndex = new Map(itemIndexes.map((commentIndex, itemIndex) => [commentIndex, contextResults[itemIndex]]))
+
+  // A comment with no surrounding conversation reads the same in context as on its own
+  return comments.map((_, index) => byIndex.get(index) || {
+    sentimentLabel: results[index].sentimentLabel,
+    sentimentScore: results[index].sentimentScore
+  })
+}
+
+// Sentiment toward each of the page owner's aspects mentioned in a comment
+async function analyzeAspects(comments: CommentWithPage[], analyzerId?: string): Promise<AspectSentimentResult[][]> {
+  const ownerIds = Array.from(new Set(comments.map(comment => comment.post.page.ownerUserId)))
+
+  const aspects = await prisma.aspect.findMany({
+    where: {
+      userId: { in: ownerIds },
+      isActive: true
+    }
+  })
+
+  if (aspects.length === 0) return comments.map(() => [])
+
+  const mentions = comments.map(comment => findAspectMentions(
+    comment.message,
+    aspects
+      .filter(aspect => aspect.userId === comment.post.page.ownerUserId)
+      .map(toAspectDefinition)
+  ))
+
+  // Each mention is scored on the clause it appears in rather than the whole comment
+  const snippets = mentions.flat().map(mention => mention.snippet)
+  const snippetResults = await AnalysisEngine.getInstance().analyzeBatch(snippets, analyzerId)
+
+  let offset = 0
+  return mentions.map(commentMentions => commentMentions.map(mention => {
+    const result = snippetResults[offset++]
+    return {
+      ...mention,
+      sentimentLabel: result.sentimentLabel,
+      sentimentScore: result.sentimentScore
+    }
+  }))
+}
+
+// The page's analyzer, else its owner's; undefined leaves the choice to the engine
+function analyzerFor(comment: CommentWithPage): string | undefined {
+  return comment.post.page.analyzerId || comment.post.page.owner.analyzerId || undefined
+}
+
+// Parent comment text keyed by platform and external ID
+async function findParentMessages(comments: CommentWithPage[]): Promise<Map<string, string>> {
+  const parentIds = Array.from(new Set(
+    comments.flatMap(comment => comment.parentExternalId ? [comment.parentExternalId] : [])
+  ))
+
+  if (parentIds.length === 0) return new Map()
 
-    // Store analysis results
-    await prisma.analysis.create({
+  const parents = await prisma.comment.findMany({
+    where: { externalId: { in: parentIds } },
+    select: { platform: true, externalId: true, message: true }
+  })
+
+  return new Map(parents.map(parent => [`${parent.platform}:${parent.externalId}`, parent.message]))
+}
+
+// Store analysis results as the comment's current version and fold them into the daily rollup.
+// A version being replaced is kept, but its rollup contribution is swapped for the new one.
+// Returns the replaced version's label, or null for a first analysis.
+async function storeAnalysis(
+  comment: CommentWithPage,
+  result: AnalysisResult,
+  contextResult: ContextSentimentResult | null,
+  aspectResults: AspectSentimentResult[],
+  campaignId?: string
+): Promise<Sentiment | null> {
+  return await prisma.$transaction(async (tx) => {
+    const previous = await tx.analysis.findFirst({
+      where: {
+        commentId: comment.id,
+        isCurrent: true
+      }
+    })
+
+    const latest = await tx.analysis.aggregate({
+      where: { commentId: comment.id },
+      _max: { version: true }
+    })
+
+    // An analyst's label keeps overriding the model's across versions
+    const annotation = await tx.annotation.findUnique({
+      where: { commentId: comment.id }
+    })
+
+    if (previous) {
+      await tx.analysis.update({
+        where: { id: previous.id },
+        data: { isCurrent: false }
+      })
+    }
+
+    const analysis = await tx.analysis.create({
       data: {
         commentId: comment.id,
+        version: (latest._max.version ?? 0) + 1,
+        isCurrent: true,
+        campaignId,
         language: result.language,
         sentimentLabel: result.sentimentLabel,
         sentimentScore: result.sentimentScore,
+        contextSentimentLabel: contextResult?.sentimentLabel,
+        contextSentimentScore: contextResult?.sentimentScore,
         toxicityScore: result.toxicityScore,
+        emotions: result.emotions,
+        emojis: result.emojis,
         keywords: result.keywords || [],
         claims: result.claims || [],
         factualAccuracy: result.factualAccuracy,
         modelName: result.modelName,
         modelVersion: result.modelVersion,
-        analyzedAt: new Date()
+        agreementScore: result.ensemble?.agreement,
+        ensembleVotes: result.ensemble?.votes,
+        needsReview: result.ensemble?.needsReview ?? false,
+        analyzedAt: new Date(),
+        aspectSentiments: {
+          create: aspectResults.map(aspect => ({
+            aspectId: aspect.aspectId,
+            mention: aspect.mention,
+            snippet: aspect.snippet,
+            sentimentLabel: aspect.sentimentLabel,
+            sentimentScore: aspect.sentimentScore
+          }))
+        }
       }
     })
 
-    console.log(`Successfully analyzed comment ${commentId} - Sentiment: ${result.sentimentLabel} (${result.sentimentScore.toFixed(2)})`)
+    if (previous) {
+      await replaceAnalysisInRollup(
+        tx,
+        effectiveRollupInput(comment, previous, annotation),
+        effectiveRollupInput(comment, analysis, annotation)
+      )
+    } else {
+      await recordAnalysisInRollup(tx, effectiveRollupInput(comment, analysis, annotation))
+    }
 
-  } catch (error) {
-    console.error(`Error analyzing sentiment for comment ${commentId}:`, error)
-    throw error
-  }
+    return previous?.sentimentLabel ?? null
+  })
 }
 
+// Record one activity entry per run, once the last pending comment on a post has been analyzed
+async function recordPostAnalysisCompletion(
+  postId: string,
+  page: { name: string; ownerUserId: string }
+): Promise<void> {
+  const pending = await prisma.comment.count({
+    where: {
+      postId,
+      analysis: { none: {} }
+    }
+  })
+
+  if (pending > 0) return
+
+  const post = await prisma.post.findUniqueOrThrow({
+    where: { id: postId },
+    select: { analysisReportedAt: true }
+  })
+  const reportedAt = new Date()
+
+  // Claim the report; a concurrent batch that also finished the post's last comments loses here
+  const claimed = await prisma.post.updateMany({
+    where: { id: postId, analysisReportedAt: post.analysisReportedAt },
+    data: { analysisReportedAt: reportedAt }
+  })
+
+  if (claimed.count === 0) return
+
+  // First analyses since the previous report; re-analysis versions have their own activity
+  const analyzedCount = await prisma.analysis.count({
+    where: {
+      version: 1,
+      comment: { postId },
+      analyzedAt: {
+        lte: reportedAt,
+        ...(post.analysisReportedAt && { gt: post.analysisReportedAt })
+      }
+    }
+  })
+
+  if (analyzedCount === 0) return
+
+  await recordActivity(
+    page.ownerUserId,
+    'ANALYSIS_COMPLETED',
+    'POST',
+    `Completed sentiment analysis for ${analyzedCount} new comments on ${page.name}`,
+    { postId, commentCount: analyzedCount }
+  )
+}
@@ -1,5 +1,7 @@
 // src/lib/workers/cleanup-data.ts
 import { PrismaClient } from '@prisma/client'
+import { rebuildRollups } from './rebuild-rollups'
+import { recordActivity } from '../activity'
 
 const prisma = new PrismaClient()
 
@@ -81,6 +83,13 @@ async function cleanupSpecificUser(userId: string): Promise<void> {
     }
   })
 
+  // Keep the daily rollups consistent with the remaining analyses
+  if (deletedAnalyses.count > 0) {
+    for (const pageId of pageIds) {
+      await rebuildRollups(pageId)
+    }
+  }
+
   // Update last cleanup timestamp
   await prisma.dataRetention.update({
     where: { userId },
@@ -88,19 +97,18 @@ async function cleanupSpecificUser(userId: string): Promise<void> {
   })
 
   // Log audit entry
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'DATA_CLEANUP',
-      resource: 'USER_DATA',
-      details: {
-        deletedAnalyses: deletedAnalyses.count,
-        deletedComments: deletedComments.count,
-        deletedPosts: deletedPosts.count,
-        cutoffDate: cutoffDate.toISOString()
-      }
+  await recordActivity(
+    userId,
+    'DATA_CLEANUP',
+    'USER_DATA',
+    `Removed ${deletedPosts.count} posts and ${deletedComments.count} comments past the ${retentionSettings.retentionDays}-day retention period`,
+    {
+      deletedAnalyses: deletedAnalyses.count,
+      deletedComments: deletedComments.count,
+      deletedPosts: deletedPosts.count,
+      cutoffDate: cutoffDate.toISOString()
     }
-  })
+  )
 
   console.log(`Cleaned up data for user ${userId}: ${deletedPosts.count} posts, ${deletedComments.count} comments, ${deletedAnalyses.count} analyses`)
 }
@@ -1,10 +1,13 @@
 // src/lib/workers/fetch-comments.ts
 import { PrismaClient, Platform, JobType } from '@prisma/client'
-import { MetaGraphAPI, TokenEncryption } from '../meta'
+import { MetaGraphAPI, TokenEncryption, InstagramComment } from '../meta'
 import { JobQueue } from '../queue'
 
 const prisma = new PrismaClient()
 
+// Comments per ANALYZE_SENTIMENT_BATCH job
+const ANALYSIS_BATCH_SIZE = parseInt(process.env.ANALYSIS_BATCH_SIZE || '50', 10)
+
 interface CommentData {
   postId: string
   platform: Platform
@@ -21,7 +24,7 @@ interface CommentData {
 
 export async function fetchCommentsForPost(
   postId: string
-): Promise<void> {
+): Promise<{ pageName: string; postId: string; commentCount: number; fetchedCount: number }> {
   try {
     // Get post details with page information
     const post = await prisma.post.findUnique({
@@ -37,92 +40,95 @@ export async function fetchCommentsForPost(
     const pageToken = TokenEncryption.decrypt(post.page.pageAccessToken)
     const api = new MetaGraphAPI(pageToken)
 
-    let comments: CommentData[] = []
-
-    if (post.platform === Platform.FACEBOOK) {
-      // Fetch Facebook comments
-      const fbComments = await api.getPostComments(
-        post.externalId,
-        pageToken
-      )
-
-      comments = fbComments.map(comment => ({
-        postId: post.id,
-        platform: Platform.FACEBOOK,
-        externalId: comment.id,
-        parentExternalId: comment.parent?.id || null,
-        authorId: comment.from?.id || null,
-        authorName: comment.from?.name || null,
-        authorUsername: null,
-        message: comment.message,
-        createdTime: new Date(comment.created_time),
-        likeCount: comment.like_count || 0,
-        replyCount: 0 // Facebook doesn't provide reply count directly
-      }))
-
-    } else if (post.platform === Platform.INSTAGRAM) {
-      // Fetch Instagram comments
-      const igComments = await api.getInstagramComments(
-        post.externalId,
-        pageToken
-      )
-
-      comments = igComments.map(comment => ({
-        postId: post.id,
-        platform: Platform.INSTAGRAM,
-        externalId: comment.id,
-        parentExternalId: null, // Instagram API doesn't provide parent info in basic response
-        authorId: null, // Instagram doesn't provide author ID in comments
-        authorName: null,
-        authorUsername: comment.username,
-        message: comment.text,
-        createdTime: new Date(comment.timestamp),
-        likeCount: comment.like_count || 0,
-        replyCount: 0
-      }))
+    // Only pull comments created since the newest one we already have
+    const since = post.lastCommentTime || undefined
+    const syncStartedAt = new Date()
+
+    let comments = await fetchPlatformComments(api, post, pageToken, since)
+    let existingIds = await findExistingComments(post.platform, comments)
+
+    // Instagram replies are fetched per top-level comment, so replies to comments older
+    // than the window are missed; fall back to a full sweep when the counts show a gap
+    if (since && post.platform === Platform.INSTAGRAM) {
+      const storedCount = await prisma.comment.count({ where: { postId } })
+      if (storedCount + comments.length - existingIds.size < post.commentCount) {
+        console.log(`Comment count gap on post ${post.externalId}, refetching all comments and replies`)
+        comments = await fetchPlatformComments(api, post, pageToken)
+        existingIds = await findExistingComments(post.platform, comments)
+      }
     }
 
-    console.log(`Fetched ${comments.length} comments for post ${post.externalId}`)
+    console.log(`Fetched ${comments.length} comments for post ${post.externalId}${since ? ` since ${since.toISOString()}` : ''}`)
 
-    // Upsert comments to database and enqueue sentiment analysis
+    // Store new comments and enqueue sentiment analysis for them in batches
     const queue = JobQueue.getInstance()
+    const commentIds: string[] = []
+    const repliedTo = new Set<string>()
+    let lastCommentTime = post.lastCommentTime
     
     for (const commentData of comments) {
-      // Upsert comment
-      const comment = await prisma.comment.upsert({
-        where: {
-          externalId_platform: {
-            externalId: commentData.externalId,
-            platform: commentData.platform
+      const existingId = existingIds.get(commentData.externalId)
+
+      if (existingId) {
+        await prisma.comment.update({
+          where: { id: existingId },
+          data: {
+            likeCount: commentData.likeCount,
+            replyCount: commentData.replyCount,
+            fetchedAt: new Date()
+          }
+        })
+      } else {
+        const comment = await prisma.comment.create({
+          data: {
+            ...commentData,
+            fetchedAt: new Date()
           }
-        },
-        update: {
-          likeCount: commentData.likeCount,
-          replyCount: commentData.replyCount,
-          fetchedAt: new Date()
-        },
-        create: {
-          ...commentData,
-          fetchedAt: new Date()
+        })
+
+        commentIds.push(comment.id)
+        if (commentData.parentExternalId) {
+          repliedTo.add(commentData.parentExternalId)
         }
-      })
+      }
+
+      if (!lastCommentTime || commentData.createdTime > lastCommentTime) {
+        lastCommentTime = commentData.createdTime
+      }
+    }
 
-      // Enqueue sentiment analysis job
-      await queue.enqueue(JobType.ANALYZE_SENTIMENT, {
-        commentId: comment.id
+    // Parents outside the fetch window still need their counts to reflect new replies
+    for (const parentExternalId of repliedTo) {
+      await syncReplyCount(post.platform, parentExternalId)
+    }
+
+    for (let offset = 0; offset < commentIds.length; offset += ANALYSIS_BATCH_SIZE) {
+      await queue.enqueue(JobType.ANALYZE_SENTIMENT_BATCH, {
+        commentIds: commentIds.slice(offset, offset + ANALYSIS_BATCH_SIZE),
+        pageId: post.pageId,
+        userId: post.page.ownerUserId
       })
     }
 
-    // Update post comment count and last fetched timestamp
+    // Advance the post's sync state
     await prisma.post.update({
       where: { id: postId },
       data: {
-        commentCount: comments.length,
+        lastCommentTime,
+        commentsSyncedAt: syncStartedAt,
+        syncedCommentCount: post.commentCount,
         lastFetchedAt: new Date()
       }
     })
 
-    console.log(`Successfully processed ${comments.length} comments for post ${post.externalId}`)
+    console.log(`Successfully processed ${comments.length} comments for post ${post.externalId} (${commentIds.length} new)`)
+
+    return {
+      pageName: post.page.name,
+      postId: post.id,
+      commentCount: commentIds.length,
+      fetchedCount: comments.length
+    }
 
   } catch (error) {
     console.error(`Error fetching comments for post ${postId}:`, error)
@@ -130,3 +136,111 @@ export async function fetchCommentsForPost(
   }
 }
 
+async function fetchPlatformComments(
+  api: MetaGraphAPI,
+  post: { id: string; externalId: string; platform: Platform },
+  pageToken: string,
+  since?: Date
+): Promise<CommentData[]> {
+  if (post.platform === Platform.FACEBOOK) {
+    // The stream filter includes replies, each with its parent and its own reply count
+    const fbComments = await api.getPostComments(
+      post.externalId,
+      pageToken,
+      since
+    )
+
+    return fbComments.map(comment => ({
+      postId: post.id,
+      platform: Platform.FACEBOOK,
+      externalId: comment.id,
+      parentExternalId: comment.parent?.id || null,
+      authorId: comment.from?.id || null,
+      authorName: comment.from?.name || null,
+      authorUsername: null,
+      message: comment.message,
+      createdTime: new Date(comment.created_time),
+      likeCount: comment.like_count || 0,
+      replyCount: comment.comment_count || 0
+    }))
+  }
+
+  // Fetch Instagram comments, then the replies under each of them
+  const igComments = await api.getInstagramComments(
+    post.externalId,
+    pageToken,
+    since
+  )
+
+  const comments: CommentData[] = []
+
+  for (const comment of igComments) {
+    const replies = await api.getInstagramReplies(comment.id, pageToken)
+
+    comments.push(
+      instagramCommentData(post.id, comment, null, replies.length),
+      ...replies.map(reply => instagramCommentData(post.id, reply, comment.id, 0))
+    )
+  }
+
+  return comments
+}
+
+function instagramCommentData(
+  postId: string,
+  comment: InstagramComment,
+  parentExternalId: string | null,
+  replyCount: number
+): CommentData {
+  return {
+    postId,
+    platform: Platform.INSTAGRAM,
+    externalId: comment.id,
+    parentExternalId,
+    authorId: null, // Instagram doesn't provide author ID in comments
+    authorName: null,
+    authorUsername: comment.username,
+    message: comment.text,
+    createdTime: new Date(comment.timestamp),
+    likeCount: comment.like_count || 0,
+    replyCount
+  }
+}
+
+// Map external IDs of already stored comments to their row IDs
+async function findExistingComments(
+  platform: Platform,
+  comments: CommentData[]
+): Promise<Map<string, string>> {
+  const existing = await prisma.comment.findMany({
+    where: {
+      platform,
+      externalId: { in: comments.map(comment => comment.externalId) }
+    },
+    select: { id: true, externalId: true }
+  })
+
+  return new Map(existing.map(comment => [comment.externalId, comment.id]))
+}
+
+// Never report fewer replies than we have stored
+async function syncReplyCount(platform: Platform, externalId: string): Promise<void> {
+  const [parent, storedReplies] = await Promise.all([
+    prisma.comment.findUnique({
+      where: {
+        externalId_platform: { externalId, platform }
+      },
+      select: { id: true, replyCount: true }
+    }),
+    prisma.comment.count({
+      where: { platform, parentExternalId: externalId }
+    })
+  ])
+
+  if (parent && storedReplies > parent.replyCount) {
+    await prisma.comment.update({
+      where: { id: parent.id },
+      data: { replyCount: storedReplies }
+    })
+  }
+}
@@ -5,6 +5,12 @@ import { JobQueue } from '../queue'
 
 const prisma = new PrismaClient()
 
+// Posts per ANALYZE_POST_SENTIMENT job
+const ANALYSIS_BATCH_SIZE = parseInt(process.env.ANALYSIS_BATCH_SIZE || '50', 10)
+
+// Stored posts created or commented on within this many days keep having their comments synced
+const COMMENT_SYNC_LOOKBACK_DAYS = parseInt(process.env.COMMENT_SYNC_LOOKBACK_DAYS || '7', 10)
+
 interface PostData {
   pageId: string
   platform: Platform
@@ -20,7 +26,7 @@ interface PostData {
 export async function fetchPostsForPage(
   pageId: string,
   dateRange?: { since: string; until: string }
-): Promise<void> {
+): Promise<{ pageName: string; postCount: number; commentJobCount: number }> {
   try {
     // Get page details
     const page = await prisma.page.findUnique({
@@ -96,6 +102,8 @@ export async function fetchPostsForPage(
 
     // Upsert posts to database
     const queue = JobQueue.getInstance()
+    let commentJobCount = 0
+    const postIds: string[] = []
     
     for (const postData of posts) {
       // Upsert post
@@ -116,14 +124,78 @@ export async function fetchPostsForPage(
           fetchedAt: new Date()
         }
       })
+      postIds.push(post.id)
 
-      // Enqueue comment fetching job if post has comments
-      if (postData.commentCount > 0) {
+      // Enqueue comment fetching job if post has comments we haven't synced yet
+      if (postData.commentCount > 0 && post.syncedCommentCount !== postData.commentCount) {
         await queue.enqueue(JobType.FETCH_COMMENTS, {
           postId: post.id,
-          platform: postData.platform
+          pageId: page.id,
+          platform: postData.platform,
+          userId: page.ownerUserId
+        })
+        commentJobCount++
+      }
+    }
+
+    // Date-range fetches only return posts published in the window, so older posts that are
+    // still drawing comments are polled from what's stored; comment fetches are incremental
+    const activeSince = new Date(Date.now() - COMMENT_SYNC_LOOKBACK_DAYS * 86400000)
+    const activePosts = await prisma.post.findMany({
+      where: {
+        pageId: page.id,
+        id: { notIn: postIds },
+        OR: [
+          { createdTime: { gte: activeSince } },
+          { lastCommentTime: { gte: activeSince } }
+        ]
+      },
+      select: { id: true, platform: true, externalId: true, syncedCommentCount: true }
+    })
+
+    const commentCounts = await fetchCommentCounts(api, page.platform, activePosts.map(post => post.externalId), pageToken)
+
+    for (const post of activePosts) {
+      const commentCount = commentCounts?.get(post.externalId)
+
+      // Only posts whose comment count moved since their last sync need a comment fetch
+      if (commentCount !== undefined) {
+        await prisma.post.update({
+          where: { id: post.id },
+          data: { commentCount, lastFetchedAt: new Date() }
         })
+
+        if (commentCount === post.syncedCommentCount) continue
       }
+
+      await queue.enqueue(JobType.FETCH_COMMENTS, {
+        postId: post.id,
+        pageId: page.id,
+        platform: post.platform,
+        userId: page.ownerUserId
+      })
+      commentJobCount++
+    }
+
+    // Analyze the copy of posts that haven't been analyzed yet
+    const unanalyzedPosts = await prisma.post.findMany({
+      where: {
+        id: { in: postIds },
+        analysis: { none: {} },
+        OR: [
+          { message: { not: null } },
+          { caption: { not: null } }
+        ]
+      },
+      select: { id: true }
+    })
+
+    for (let offset = 0; offset < unanalyzedPosts.length; offset += ANALYSIS_BATCH_SIZE) {
+      await queue.enqueue(JobType.ANALYZE_POST_SENTIMENT, {
+        postIds: unanalyzedPosts.slice(offset, offset + ANALYSIS_BATCH_SIZE).map(post => post.id),
+        pageId: page.id,
+        userId: page.ownerUserId
+      })
     }
 
     // Update page last fetched timestamp
@@ -134,9 +206,34 @@ export async function fetchPostsForPage(
 
     console.log(`Successfully processed ${posts.length} posts for page ${page.name}`)
 
+    return {
+      pageName: page.name,
+      postCount: posts.length,
+      commentJobCount
+    }
+
   } catch (error) {
     console.error(`Error fetching posts for page ${pageId}:`, error)
     throw error
   }
 }
 
+// Current comment counts for stored posts, or null to sync them all when the lookup fails,
+// e.g. because one of the posts was deleted on the platform
+async function fetchCommentCounts(
+  api: MetaGraphAPI,
+  platform: Platform,
+  externalIds: string[],
+  pageToken: string
+): Promise<Map<string, number> | null> {
+  if (externalIds.length === 0) return new Map()
+
+  try {
+    return platform === Platform.INSTAGRAM
+      ? await api.getInstagramCommentCounts(externalIds, pageToken)
+      : await api.getPostCommentCounts(externalIds, pageToken)
+  } catch (error) {
+    console.warn('Could not fetch comment counts for active posts, syncing all of them:', error)
+    return null
+  }
+}
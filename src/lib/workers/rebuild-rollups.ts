@@ -0,0 +1,139 @@
+// src/lib/workers/rebuild-rollups.ts
+import { PrismaClient } from '@prisma/client'
+import { rollupIncrements, startOfUtcDay } from '../rollup'
+import { effectiveRollupInput } from '../annotations'
+
+const prisma = new PrismaClient()
+
+const BATCH_SIZE = 1000
+
+// A page's scan and swap run in one transaction, which can outlast Prisma's 5s default
+const TRANSACTION_MAX_WAIT_MS = 10_000
+const TRANSACTION_TIMEOUT_MS = 5 * 60_000
+
+// Pages with current analyses but no rollup rows, e.g. ones analyzed before rollups existed
+export async function findPagesMissingRollups(): Promise<Array<{ id: string, ownerUserId: string }>> {
+  return await prisma.page.findMany({
+    where: {
+      rollups: { none: {} },
+      posts: {
+        some: {
+          comments: {
+            some: {
+              analysis: { some: { isCurrent: true } }
+            }
+          }
+        }
+      }
+    },
+    select: { id: true, ownerUserId: true }
+  })
+}
+
+export async function rebuildRollups(
+  pageId?: string
+): Promise<{ pageCount: number; rollupCount: number }> {
+  try {
+    const pages = await prisma.page.findMany({
+      where: pageId ? { id: pageId } : {},
+      select: { id: true, name: true, platform: true }
+    })
+
+    if (pageId && pages.length === 0) {
+      throw new Error(`Page not found: ${pageId}`)
+    }
+
+    let rollupCount = 0
+
+    for (const page of pages) {
+      // Clear the page's rollups first so the transaction holds the write lock while it scans;
+      // analyses and annotations stored meanwhile wait for the swap instead of landing in old rows
+      const rows = await prisma.$transaction(async (tx) => {
+        await tx.sentimentDailyRollup.deleteMany({
+          where: { pageId: page.id }
+        })
+
+        const rows = new Map<string, ReturnType<typeof rollupIncrements> & { day: Date }>()
+        let cursor: string | undefined
+
+        // Walk the page's current analyses in batches to keep memory bounded
+        while (true) {
+          const analyses = await tx.analysis.findMany({
+            where: {
+              isCurrent: true,
+              comment: {
+                post: { pageId: page.id }
+              }
+            },
+            select: {
+              id: true,
+              sentimentLabel: true,
+              sentimentScore: true,
+              toxicityScore: true,
+              emotions: true,
+              comment: {
+                select: {
+                  createdTime: true,
+                  likeCount: true,
+                  annotation: {
+                    select: { sentimentLabel: true, isToxic: true }
+                  }
+                }
+              }
+            },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 })
+          })
+
+          if (analyses.length === 0) break
+
+          for (const analysis of analyses) {
+            const day = startOfUtcDay(analysis.comment.createdTime)
+            const increments = rollupIncrements(effectiveRollupInput(
+              { ...analysis.comment, platform: page.platform, post: { pageId: page.id } },
+              analysis,
+              analysis.comment.annotation
+            ))
+
+            const row = rows.get(day.toISOString())
+            if (row) {
+              for (const field of Object.keys(increments) as Array<keyof typeof increments>) {
+                row[field] += increments[field]
+              }
+            } else {
+              rows.set(day.toISOString(), { day, ...increments })
+            }
+          }
+
+          cursor = analyses[analyses.length - 1].id
+        }
+
+        await tx.sentimentDailyRollup.createMany({
+          data: Array.from(rows.values()).map(row => ({
+            pageId: page.id,
+            platform: page.platform,
+            ...row
+          }))
+        })
+
+        return rows
+      }, {
+        maxWait: TRANSACTION_MAX_WAIT_MS,
+        timeout: TRANSACTION_TIMEOUT_MS
+      })
+
+      rollupCount += rows.size
+      console.log(`Rebuilt ${rows.size} daily rollups for page ${page.name}`)
+    }
+
+    return {
+      pageCount: pages.length,
+      rollupCount
+    }
+
+  } catch (error) {
+    console.error('Error rebuilding sentiment rollups:', error)
+    throw error
+  }
+}
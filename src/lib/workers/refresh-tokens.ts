@@ -1,16 +1,20 @@
 // src/lib/workers/refresh-tokens.ts
 import { PrismaClient } from '@prisma/client'
 import { MetaGraphAPI, TokenEncryption } from '../meta'
+import { recordActivity } from '../activity'
 
 const prisma = new PrismaClient()
 
-export async function refreshExpiredTokens(): Promise<void> {
+export async function refreshExpiredTokens(userId?: string): Promise<void> {
   try {
     console.log('Starting token refresh process')
 
-    // Get all active pages
+    // Get active pages, for one user or everyone
     const pages = await prisma.page.findMany({
-      where: { isActive: true },
+      where: {
+        isActive: true,
+        ...(userId && { ownerUserId: userId })
+      },
       include: { owner: true }
     })
 
@@ -56,6 +60,14 @@ export async function refreshExpiredTokens(): Promise<void> {
                 }
               })
               
+              await recordActivity(
+                page.ownerUserId,
+                'TOKEN_REFRESHED',
+                'PAGE',
+                `Refreshed access token for ${page.name}`,
+                { pageId: page.id }
+              )
+
               refreshedCount++
               console.log(`Successfully refreshed token for page ${page.name}`)
             }
@@ -68,6 +80,14 @@ export async function refreshExpiredTokens(): Promise<void> {
             where: { id: page.id },
             data: { isActive: false }
           })
+
+          await recordActivity(
+            page.ownerUserId,
+            'TOKEN_INVALID',
+            'PAGE',
+            `Access token for ${page.name} is no longer valid; the page was deactivated`,
+            { pageId: page.id }
+          )
           
           // TODO: Notify user that they need to re-authenticate
           errorCount++
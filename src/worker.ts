@@ -0,0 +1,23 @@
+// src/worker.ts - standalone job processor, run outside the Next.js server
+import { JobQueue } from './lib/queue'
+
+const queue = JobQueue.getInstance()
+
+queue.startProcessing({
+  pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10)
+})
+
+// Finish in-flight jobs before exiting so their leases are released cleanly
+let shuttingDown = false
+
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return
+  shuttingDown = true
+
+  console.log(`Received ${signal}, waiting for running jobs to finish`)
+  await queue.stopProcessing()
+  process.exit(0)
+}
+
+process.on('SIGINT', () => void shutdown('SIGINT'))
+process.on('SIGTERM', () => void shutdown('SIGTERM'))